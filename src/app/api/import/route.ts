@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { parseRatingsExport, resolveImportedRows } from '@/app/lib/ratingsImport';
+import { readLimitedText } from '@/app/lib/requestBody';
+import { isTmdbConfigured } from '@/app/lib/tmdbClient';
+
+// Request bodies past this are rejected before they're parsed
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+// Imports a Letterboxd or IMDb CSV export, posted as `{ csv }` text. Returns
+// the matched seeds, everything watched (for the seen list), and the rows TMDB
+// couldn't match.
+export async function POST(request: Request) {
+  if (!isTmdbConfigured()) {
+    return NextResponse.json({ error: 'Movie API key is not configured' }, { status: 500 });
+  }
+
+  try {
+    const text = await readLimitedText(request, MAX_BODY_BYTES);
+    if (text === null) {
+      return NextResponse.json({ error: 'That file is too large to import' }, { status: 413 });
+    }
+    let csv: unknown;
+    try {
+      csv = (JSON.parse(text) as { csv?: unknown }).csv;
+    } catch {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+    if (typeof csv !== 'string' || !csv.trim()) {
+      return NextResponse.json({ error: 'Please choose a CSV file to import' }, { status: 400 });
+    }
+
+    const parsed = parseRatingsExport(csv);
+    if (!parsed) {
+      return NextResponse.json(
+        { error: 'Unrecognized file. Upload a Letterboxd ratings.csv or watched.csv, or an IMDb ratings export.' },
+        { status: 400 }
+      );
+    }
+    if (parsed.rows.length === 0) {
+      return NextResponse.json({ error: 'That export has no titles in it' }, { status: 400 });
+    }
+
+    return NextResponse.json(await resolveImportedRows(parsed.source, parsed.rows));
+  } catch (error) {
+    console.error('Ratings import failed:', error);
+    return NextResponse.json({ error: 'Failed to import that file' }, { status: 500 });
+  }
+}
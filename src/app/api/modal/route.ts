@@ -1,56 +1,21 @@
 import { NextResponse } from 'next/server';
-import axios from 'axios';
-import { rankTmdbCandidates } from '@/app/lib/movieMatching';
-
-// Helper function to extract the movie title from our format "Title (Year) - Director"
-const extractMovieInfo = (movieString: string) => {
-  // Remove extra spaces and normalize quotes
-  const normalizedString = movieString
-    .replace(/\s+/g, ' ')
-    .replace(/[""]/g, '"')
-    .trim();
-
-  // Try to match "Title (Year) - Director" format
-  const match = normalizedString.match(/(.+?)\s*\((\d{4})\)/i);
-  if (match) {
-    return {
-      title: match[1].trim(),
-      year: match[2]
-    };
-  }
-
-  // If no match, just take everything before the hyphen or the whole string
-  const title = normalizedString.split('-')[0].trim();
-  return {
-    title,
-    year: ''
-  };
-};
-
-// Helper function to clean up movie title for search
-const cleanMovieTitle = (title: string) => {
-  return title
-    // Remove common prefixes like "The", "A", "An" from the start
-    .replace(/^(the|a|an)\s+/i, '')
-    // Remove special characters but keep apostrophes for names
-    .replace(/[^\w\s'-]/g, ' ')
-    // Replace multiple spaces with single space
-    .replace(/\s+/g, ' ')
-    .trim();
-};
-
-interface TMDBError {
-  message: string;
-  type?: string;
-  response?: {
-    data?: unknown;
-    status?: number;
-  };
-}
+import { toWatchRegion } from '@/app/lib/streamingProviders';
+import {
+  describeTmdbError,
+  extractMovieInfo,
+  fetchMovieDetails,
+  findCreator,
+  flatrateProviderNames,
+  providerAvailability,
+  isTmdbConfigured,
+  resolveMovie,
+  tmdbImageUrl,
+  tmdbMovieUrl,
+} from '@/app/lib/tmdbClient';
 
 export async function POST(request: Request) {
   try {
-    const { movieName } = await request.json();
+    const { movieName, tmdbId, region, mediaType: rawMediaType } = await request.json();
 
     if (!movieName) {
       return NextResponse.json(
@@ -59,150 +24,65 @@ export async function POST(request: Request) {
       );
     }
 
-    const tmdbApiKey = process.env.TMDB_API_KEY;
-    if (!tmdbApiKey) {
+    if (!isTmdbConfigured()) {
       return NextResponse.json(
         { error: 'TMDB API key not configured' },
         { status: 500 }
       );
     }
 
-    // Extract movie info from the formatted string
-    const { title, year } = extractMovieInfo(movieName);
-    
-    // Try exact title match first, then cleaned title if needed
-    console.log('Searching for movie:', { original: title, year });
-
-    // First, try searching with the exact title
-    let searchResponse = await axios.get(
-      `https://api.themoviedb.org/3/search/movie?query=${encodeURIComponent(title)}${year ? `&year=${year}` : ''}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${tmdbApiKey}`,
-          'accept': 'application/json'
-        }
-      }
-    );
-
-    // If exact title search doesn't yield good results, try with cleaned title
-    if (!searchResponse.data.results || searchResponse.data.results.length === 0) {
-      const cleanedTitle = cleanMovieTitle(title);
-      console.log('Trying cleaned title:', cleanedTitle);
-      searchResponse = await axios.get(
-        `https://api.themoviedb.org/3/search/movie?query=${encodeURIComponent(cleanedTitle)}${year ? `&year=${year}` : ''}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${tmdbApiKey}`,
-            'accept': 'application/json'
-          }
-        }
-      );
-    }
-
-    if (!searchResponse.data.results || searchResponse.data.results.length === 0) {
-      // If no exact match found, try a broader search without the year using cleaned title
-      const cleanedTitle = cleanMovieTitle(title);
-      const broadSearchResponse = await axios.get(
-        `https://api.themoviedb.org/3/search/movie?query=${encodeURIComponent(cleanedTitle)}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${tmdbApiKey}`,
-            'accept': 'application/json'
-          }
-        }
-      );
-
-      if (!broadSearchResponse.data.results || broadSearchResponse.data.results.length === 0) {
-        throw new Error('Movie not found');
-      }
-
-      // Use the first result from broad search
-      searchResponse.data.results = broadSearchResponse.data.results;
-    }
+    const watchRegion = toWatchRegion(region);
+    const mediaType = rawMediaType === 'tv' ? 'tv' : 'movie';
 
-    // Rank by popularity, with exact title/year matches acting as a boost rather
-    // than an absolute override (see rankTmdbCandidates for why that matters).
-    const sortedResults = rankTmdbCandidates(searchResponse.data.results, title, year);
-    
-    // Get the most popular result
-    const movieData = sortedResults[0];
+    // Records that were already resolved (e.g. backfill picks) carry their TMDB id;
+    // otherwise rank search results by popularity, with exact title/year matches
+    // acting as a boost rather than an absolute override (see rankTmdbCandidates).
+    const movieId = Number.isInteger(tmdbId)
+      ? tmdbId as number
+      : (await resolveMovie(extractMovieInfo(movieName), mediaType)).id;
 
     // Get detailed movie info including credits, videos, and watch providers
-    const detailsResponse = await axios.get(
-      `https://api.themoviedb.org/3/movie/${movieData.id}?append_to_response=credits,videos,watch/providers`,
-      {
-        headers: {
-          'Authorization': `Bearer ${tmdbApiKey}`,
-          'accept': 'application/json'
-        }
-      }
-    );
-
-    const movie_data = detailsResponse.data;
-    
-    // Format genres into array
-    const genres = movie_data.genres.map((g: { name: string }) => g.name);
-
-    // Get director from crew
-    const director = movie_data.credits.crew.find((person: { job: string }) => person.job === 'Director')?.name || '';
+    const movie_data = await fetchMovieDetails(movieId, ['credits', 'videos', 'watch/providers'], mediaType);
 
     // Get top cast members (up to 6)
-    const topCast = movie_data.credits.cast
+    const topCast = (movie_data.credits?.cast || [])
       .slice(0, 6)
-      .map((actor: { name: string }) => actor.name);
+      .map(actor => actor.name);
 
     // Get trailer URL if available
     const trailerVideo = movie_data.videos?.results?.find(
-      (video: { type: string, site: string }) => video.type === 'Trailer' && video.site === 'YouTube'
+      video => video.type === 'Trailer' && video.site === 'YouTube'
     );
     const trailerUrl = trailerVideo ? `https://www.youtube.com/watch?v=${trailerVideo.key}` : null;
 
-    // Format streaming providers array
-    const streamingProviders = movie_data['watch/providers']?.results?.US?.flatrate
-      ? movie_data['watch/providers'].results.US.flatrate
-          .slice(0, 5)
-          .map((provider: { provider_name: string }) => provider.provider_name)
-      : [];
-
-    // Return comprehensive movie information for desktop modal
+    // Return comprehensive movie information for desktop modal. For a series,
+    // `director` is its creator(s) and `runtime` the typical episode length.
     return NextResponse.json({
       title: movie_data.title,
       description: movie_data.overview,
-      poster_path: movie_data.poster_path ? `https://image.tmdb.org/t/p/w500${movie_data.poster_path}` : null,
-      backdrop_path: movie_data.backdrop_path ? `https://image.tmdb.org/t/p/w1280${movie_data.backdrop_path}` : null,
+      poster_path: tmdbImageUrl(movie_data.poster_path),
+      backdrop_path: tmdbImageUrl(movie_data.backdrop_path, 'w1280'),
       cast: topCast,
-      director: director,
-      genres: genres,
+      director: findCreator(movie_data),
+      genres: movie_data.genres.map(g => g.name),
+      original_language: movie_data.original_language,
       runtime: movie_data.runtime,
+      media_type: mediaType,
+      seasons: movie_data.number_of_seasons ?? null,
       rating: movie_data.vote_average,
       year: new Date(movie_data.release_date).getFullYear(),
-      streaming: streamingProviders,
+      streaming: flatrateProviderNames(movie_data['watch/providers'], watchRegion).slice(0, 5),
+      availability: providerAvailability(movie_data['watch/providers'], watchRegion),
       trailer: trailerUrl,
-      tmdb_url: `https://www.themoviedb.org/movie/${movie_data.id}`
-    });
-    
-  } catch (error: unknown) {
-    const tmdbError = error as TMDBError;
-    console.error('Detailed error:', {
-      message: tmdbError.message,
-      type: tmdbError.type,
-      response: tmdbError.response?.data,
-      status: tmdbError.response?.status
+      tmdb_url: tmdbMovieUrl(movie_data.id, mediaType),
+      tmdb_id: movie_data.id
     });
-    
-    let errorMessage = 'Failed to get movie details';
-    
-    if (!process.env.TMDB_API_KEY) {
-      errorMessage = 'API key not configured properly';
-    } else if (tmdbError.response?.status === 401) {
-      errorMessage = 'Invalid API key';
-    } else if (tmdbError.message) {
-      errorMessage = `Error: ${tmdbError.message}`;
-    }
 
+  } catch (error: unknown) {
+    const { message, status } = describeTmdbError(error);
     return NextResponse.json(
-      { error: errorMessage },
-      { status: tmdbError.response?.status || 500 }
+      { error: message },
+      { status }
     );
   }
-} 
\ No newline at end of file
+}
@@ -1,10 +1,32 @@
-import { OpenAI } from 'openai';
 import { NextResponse } from 'next/server';
 import { isLikelySequelPair } from '@/app/lib/movieMatching';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import {
+  MediaChoice,
+  MovieRef,
+  RECOMMENDATIONS_RESPONSE_FORMAT,
+  Recommendation,
+  isExcludedMovie,
+  matchesMediaChoice,
+  parseMovieList,
+  parseRecommendationsResponse,
+  seedTitlesOf,
+  toMediaChoice,
+  toMood,
+  toMovieListText,
+  toMovieRefs,
+  toReactions,
+  toSeedRefs,
+  toSeenMovies,
+  withReactions,
+} from '@/app/lib/recommendations';
+import { RecommendationConstraints, toConstraints } from '@/app/lib/constraints';
+import { Participant, groupMovieList, groupServices, toGroupServiceMode, toParticipants } from '@/app/lib/groups';
+import { LanguagePreferences, toLanguagePreferences } from '@/app/lib/languages';
+import { LlmProvider, getLlmProvider } from '@/app/lib/llmProvider';
+import { RECOMMENDATION_COUNT, RECOMMEND_MAX_TOKENS, buildRecommendMessages } from '@/app/lib/recommendPrompt';
+import { AvailabilityType, WatchRegion, toAvailabilityTypes, toServiceNames, toWatchRegion } from '@/app/lib/streamingProviders';
+import { recommendFromTmdb, toRecommendationEngine } from '@/app/lib/tmdbRecommender';
+import { isTmdbConfigured } from '@/app/lib/tmdbClient';
 
 interface OpenAIError {
   message: string;
@@ -15,84 +37,144 @@ interface OpenAIError {
   };
 }
 
-export async function POST(request: Request) {
+// Asks the LLM for a batch and applies the server-side filters. Returns null
+// when the model's output couldn't be parsed.
+async function recommendWithLlm(
+  llm: LlmProvider,
+  { seedRefs, movies, mood, participants, dislikedMovies, excludeMovies, seenMovies, services, region, availabilityTypes, preferPopular, useOriginalModel, mediaChoice, constraints, languages }: {
+    seedRefs: MovieRef[];
+    movies: string;
+    mood: string;
+    participants: Participant[];
+    dislikedMovies: string;
+    excludeMovies: MovieRef[];
+    seenMovies: MovieRef[];
+    services: string[];
+    region: WatchRegion;
+    availabilityTypes: AvailabilityType[];
+    preferPopular: boolean;
+    useOriginalModel: boolean;
+    mediaChoice: MediaChoice;
+    constraints: RecommendationConstraints;
+    languages: LanguagePreferences;
+  }
+): Promise<Recommendation[] | null> {
+  const content = await llm.complete({
+    messages: buildRecommendMessages({ seedRefs, movies, mood, participants, dislikedMovies, excludeMovies, seenMovies, services, region, availabilityTypes, preferPopular, mediaChoice, constraints, languages }),
+    temperature: 0.7,
+    maxTokens: RECOMMEND_MAX_TOKENS,
+    responseFormat: RECOMMENDATIONS_RESPONSE_FORMAT,
+    useOriginalModel,
+  });
+
+  let parsed: Recommendation[];
   try {
-    if (!process.env.OPENAI_API_KEY) {
-      console.error('OpenAI API key is missing');
-      return NextResponse.json(
-        { error: 'OpenAI API key is not configured' },
-        { status: 500 }
-      );
+    parsed = parseRecommendationsResponse(content, seedTitlesOf(seedRefs, movies));
+  } catch (parseError) {
+    console.error('Invalid model response:', parseError, content);
+    return null;
+  }
+
+  // Server-side filtering as backup: drop excluded titles and picks of the wrong
+  // media type, and drop any movie that's a direct sequel/prequel of one already
+  // excluded or already kept earlier in this same batch (defense in depth on top
+  // of the prompt rules).
+  const recommendations: Recommendation[] = [];
+  for (const recommendation of parsed) {
+    const clashesWithKept = recommendations.some(k => isLikelySequelPair(k.title, recommendation.title));
+    if (!isExcludedMovie(recommendation, excludeMovies, seenMovies) && matchesMediaChoice(recommendation, mediaChoice) && !clashesWithKept) {
+      recommendations.push(recommendation);
     }
+  }
+  console.log('Filtered recommendations:', recommendations);
+  return recommendations;
+}
 
-    const { movies, excludeMovies = [], services = [], preferPopular = false, useOriginalModel = false } = await request.json();
+// `engine: 'tmdb'` skips the LLM entirely. Otherwise the LLM is tried first and
+// the TMDB-only engine takes over if it isn't configured, fails, or returns
+// something unparseable. The response's `engine` says which one produced the list.
+export async function POST(request: Request) {
+  const llm = getLlmProvider();
+  try {
+    const { seeds, movies: rawMovies, mood: rawMood, participants: rawParticipants, groupServices: groupServiceMode, excludeMovies: rawExcludeMovies, seenMovies: rawSeenMovies, services: rawServices, region: rawRegion, availabilityTypes: rawAvailabilityTypes, preferPopular = false, useOriginalModel = false, engine, mediaType, dislikedMovies: rawDislikedMovies, reactions, constraints: rawConstraints, languages: rawLanguages } = await request.json();
+    // Group mode swaps the solo favorites and services for the participants'
+    const participants = toParticipants(rawParticipants);
+    const region = toWatchRegion(rawRegion);
+    const services = participants.length > 0 ? groupServices(participants, toGroupServiceMode(groupServiceMode)) : toServiceNames(rawServices, region);
+    const mood = toMood(rawMood);
+    // Thumbs up/down on earlier picks join the seeds and the disliked titles
+    const { seedRefs, movies, dislikedMovies } = withReactions({
+      seedRefs: toSeedRefs(seeds),
+      movies: participants.length > 0 ? groupMovieList(participants) : toMovieListText(rawMovies),
+      dislikedMovies: toMovieListText(rawDislikedMovies),
+    }, toReactions(reactions));
+    // Disliked titles are never recommended back, on top of steering away from them
+    const excludeMovies = [...toMovieRefs(rawExcludeMovies), ...seedRefs, ...parseMovieList(dislikedMovies)];
+    const seenMovies = toSeenMovies(rawSeenMovies);
+    const mediaChoice = toMediaChoice(mediaType);
+    const availabilityTypes = toAvailabilityTypes(rawAvailabilityTypes);
+    const constraints = toConstraints(rawConstraints, region);
+    const languages = toLanguagePreferences(rawLanguages);
     console.log('Received excludeMovies:', excludeMovies);
-    if (!movies) {
+    if (!movies && seedRefs.length === 0 && !mood) {
       return NextResponse.json(
-        { error: 'Please provide a list of movies' },
+        { error: 'Please provide a list of movies or a mood' },
         { status: 400 }
       );
     }
 
-    // The original gpt-4o-mini uses `max_tokens`; the newer gpt-5.4-nano requires
-    // `max_completion_tokens` instead — the API rejects the wrong one per model.
-    const model = useOriginalModel ? 'gpt-4o-mini' : 'gpt-5.4-nano';
-    const tokenLimitParam = useOriginalModel ? { max_tokens: 500 } : { max_completion_tokens: 500 };
-
-    const completion = await openai.chat.completions.create({
-      model,
-      messages: [
-        {
-          role: "system",
-          content: "You are a movie recommendation expert. Format every response as exactly one movie per line: 'Title (Year) - Director'. Always include the year to distinguish movies with the same title. Never include two movies in the same response where one is a direct sequel or prequel of the other (e.g. don't include both 'Avatar' and 'Avatar: The Way of Water') — movies from the same franchise are fine as long as neither is a direct sequel/prequel of the other."
-        },
-        {
-          role: "user",
-          content: `Based on these movies: ${movies}
-
-Recommend 7 movies that match the genre mix, tone, intended audience, quality ratings, and time periods of the input movies. Consider the ratio of genres and include at least one movie that blends multiple genres from the input list.
-
-${excludeMovies.length > 0 ? `Do not recommend any of these movies:\n${excludeMovies.join('\n')}` : ''}
-${services.length > 0 ? `When possible, prefer movies commonly available for streaming on: ${services.join(', ')}.` : ''}
-${preferPopular ? 'Favor well-known, broadly popular, mainstream movies over obscure or niche picks when the fit is comparable.' : ''}
-
-Return exactly 7 movies, one per line, no additional text.`
+    if (toRecommendationEngine(engine) === 'llm') {
+      const configurationError = llm.configurationError();
+      if (configurationError) {
+        console.error(`LLM provider "${llm.name}" is not configured:`, configurationError);
+        if (!isTmdbConfigured()) {
+          return NextResponse.json(
+            { error: configurationError },
+            { status: 500 }
+          );
+        }
+      } else {
+        try {
+          const recommendations = await recommendWithLlm(llm, { seedRefs, movies, mood, participants, dislikedMovies, excludeMovies, seenMovies, services, region, availabilityTypes, preferPopular, useOriginalModel, mediaChoice, constraints, languages });
+          if (recommendations) {
+            return NextResponse.json({ recommendations, engine: 'llm' });
+          }
+          if (!isTmdbConfigured()) {
+            return NextResponse.json(
+              { error: 'The recommendation model returned an invalid response. Please try again.' },
+              { status: 502 }
+            );
+          }
+        } catch (llmError) {
+          if (!isTmdbConfigured()) throw llmError;
+          console.error('LLM recommendation failed, falling back to the TMDB engine:', llmError);
         }
-      ],
-      temperature: 0.7,
-      ...tokenLimitParam,
-    });
-
-    // Server-side filtering as backup: drop exact excluded-title matches, and drop
-    // any movie that's a direct sequel/prequel of one already excluded or already
-    // kept earlier in this same batch (defense in depth on top of the prompt rule).
-    const recommendationLines = (completion.choices[0].message.content || '')
-      .split('\n')
-      .filter(line => line.trim() !== '');
-
-    const kept: string[] = [];
-    for (const recommendation of recommendationLines) {
-      const titleMatch = recommendation.match(/^(.+?)\s*\(/);
-      const recTitle = titleMatch ? titleMatch[1].trim().toLowerCase() : recommendation.toLowerCase();
-
-      const isExcluded = excludeMovies.some((excludedMovie: string) => {
-        const excludedTitle = excludedMovie.split('(')[0].trim().toLowerCase();
-        return recTitle === excludedTitle;
-      });
-      const clashesWithExcluded = excludeMovies.some((excludedMovie: string) => isLikelySequelPair(excludedMovie, recommendation));
-      const clashesWithKept = kept.some(k => isLikelySequelPair(k, recommendation));
-
-      if (!isExcluded && !clashesWithExcluded && !clashesWithKept) {
-        kept.push(recommendation);
       }
     }
 
-    const recommendations = kept.join('\n');
-    console.log('Filtered recommendations:', recommendations);
-
-    return NextResponse.json({
-      recommendations
+    if (!isTmdbConfigured()) {
+      return NextResponse.json(
+        { error: 'Movie API key is not configured' },
+        { status: 500 }
+      );
+    }
+    const { recommendations, unresolvedSeeds } = await recommendFromTmdb({
+      seedRefs,
+      movies,
+      participants,
+      dislikedMovies,
+      excludeMovies,
+      seenMovies,
+      services,
+      region,
+      availabilityTypes,
+      count: RECOMMENDATION_COUNT,
+      preferPopular,
+      mediaChoice,
+      constraints,
+      languages,
     });
+    return NextResponse.json({ recommendations, engine: 'tmdb', unresolvedSeeds });
     
   } catch (error: unknown) {
     const openaiError = error as OpenAIError;
@@ -105,7 +187,7 @@ Return exactly 7 movies, one per line, no additional text.`
     
     let errorMessage = 'Failed to get recommendations';
     
-    if (!process.env.OPENAI_API_KEY) {
+    if (llm.configurationError()) {
       errorMessage = 'API key not configured properly';
     } else if (openaiError.response?.status === 401) {
       errorMessage = 'Invalid API key';
@@ -0,0 +1,263 @@
+import { NextResponse } from 'next/server';
+import { findBackfillPicks } from '@/app/lib/backfill';
+import { constraintViolations, hasConstraints, toConstraints } from '@/app/lib/constraints';
+import { createJsonItemExtractor } from '@/app/lib/jsonStream';
+import { isLikelySequelPair } from '@/app/lib/movieMatching';
+import { buildMovieDescription } from '@/app/lib/movieDescription';
+import { groupMovieList, groupServices, toGroupServiceMode, toParticipants } from '@/app/lib/groups';
+import { hasLanguagePreferences, matchesLanguagePreferences, toLanguagePreferences } from '@/app/lib/languages';
+import { getLlmProvider } from '@/app/lib/llmProvider';
+import { RECOMMENDATION_COUNT, RECOMMEND_MAX_TOKENS, buildRecommendMessages } from '@/app/lib/recommendPrompt';
+import {
+  RECOMMENDATIONS_RESPONSE_FORMAT,
+  Recommendation,
+  formatMovie,
+  isExcludedMovie,
+  isSameMovie,
+  matchesMediaChoice,
+  parseMovieList,
+  seedTitlesOf,
+  toMediaChoice,
+  toMood,
+  toMovieListText,
+  toMovieRefs,
+  toReactions,
+  toRecommendation,
+  toSeedRefs,
+  toSeenMovies,
+  withReactions,
+} from '@/app/lib/recommendations';
+import { encodeSseEvent } from '@/app/lib/sse';
+import { isAvailabilityFilterActive, movieMatchesServices, toAvailabilityTypes, toServiceNames, toWatchRegion } from '@/app/lib/streamingProviders';
+import { fetchMovieDetails, isTmdbConfigured, resolveMovie } from '@/app/lib/tmdbClient';
+import { RecommendationEngine, recommendFromTmdb, toRecommendationEngine } from '@/app/lib/tmdbRecommender';
+
+type Verification = 'shown' | 'miss' | 'dropped';
+
+// Streaming variant of /api/recommend. Each recommendation is emitted as a
+// `recommendation` event (with its card payload) as soon as the model has
+// finished writing it, TMDB has resolved it, and it has passed the streaming
+// filter, the hard constraints and the language preferences. Picks that fail
+// any of them are replaced via the backfill pipeline
+// once the model is done (announced with a `backfill` event). If the LLM isn't
+// configured or fails, or `engine: 'tmdb'` was requested, the TMDB-only engine
+// fills the batch instead; it also tops up a model run that ended with fewer
+// usable picks than a full batch. The stream ends with `done` (saying which engine
+// produced the list and listing any typed seeds TMDB couldn't match), or
+// `error` if nothing could be recommended at all.
+export async function POST(request: Request) {
+  const llm = getLlmProvider();
+  if (!isTmdbConfigured()) {
+    return NextResponse.json(
+      { error: 'Movie API key is not configured' },
+      { status: 500 }
+    );
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+  const { seeds, movies: rawMovies, mood: rawMood, participants: rawParticipants, groupServices: groupServiceMode, excludeMovies: rawExcludeMovies, seenMovies: rawSeenMovies, services: rawServices, region: rawRegion, availabilityTypes: rawAvailabilityTypes, preferPopular = false, useOriginalModel = false, engine: requestedEngine, mediaType, dislikedMovies: rawDislikedMovies, reactions, constraints: rawConstraints, languages: rawLanguages } = body;
+  // Group mode swaps the solo favorites and services for the participants'
+  const participants = toParticipants(rawParticipants);
+  const region = toWatchRegion(rawRegion);
+  const services = participants.length > 0 ? groupServices(participants, toGroupServiceMode(groupServiceMode)) : toServiceNames(rawServices, region);
+  const mood = toMood(rawMood);
+  // Thumbs up/down on earlier picks join the seeds and the disliked titles
+  const { seedRefs, movies, dislikedMovies } = withReactions({
+    seedRefs: toSeedRefs(seeds),
+    movies: participants.length > 0 ? groupMovieList(participants) : toMovieListText(rawMovies),
+    dislikedMovies: toMovieListText(rawDislikedMovies),
+  }, toReactions(reactions));
+  if (!movies && seedRefs.length === 0 && !mood) {
+    return NextResponse.json(
+      { error: 'Please provide a list of movies or a mood' },
+      { status: 400 }
+    );
+  }
+  const excludeMovies = [...toMovieRefs(rawExcludeMovies), ...seedRefs, ...parseMovieList(dislikedMovies)];
+  const seenMovies = toSeenMovies(rawSeenMovies);
+  const mediaChoice = toMediaChoice(mediaType);
+  const availabilityTypes = toAvailabilityTypes(rawAvailabilityTypes);
+  const constraints = toConstraints(rawConstraints, region);
+  const languages = toLanguagePreferences(rawLanguages);
+  const filterActive = isAvailabilityFilterActive(services, availabilityTypes);
+  const seedTitles = seedTitlesOf(seedRefs, movies);
+  const configurationError = llm.configurationError();
+  if (configurationError) {
+    console.error(`LLM provider "${llm.name}" is not configured:`, configurationError);
+  }
+  let engine: RecommendationEngine = toRecommendationEngine(requestedEngine) === 'llm' && !configurationError ? 'llm' : 'tmdb';
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false;
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(encodeSseEvent(event, data)));
+        } catch {
+          // the client went away; keep going quietly so the cache still warms
+          closed = true;
+        }
+      };
+
+      const shown: Recommendation[] = [];
+      // Typed seeds TMDB couldn't match, from whichever TMDB pool got built
+      const unresolvedSeeds = new Set<string>();
+      const shownGenres: string[] = [];
+
+      const verify = async (recommendation: Recommendation): Promise<Verification> => {
+        try {
+          const mediaType = recommendation.mediaType || 'movie';
+          const tmdbId = recommendation.tmdbId ?? (await resolveMovie({
+            title: recommendation.title,
+            year: String(recommendation.year),
+            director: recommendation.director,
+          }, mediaType)).id;
+          const resolved = { ...recommendation, tmdbId };
+          if (isExcludedMovie(resolved, excludeMovies, seenMovies)) {
+            return 'dropped';
+          }
+
+          const description = buildMovieDescription(await fetchMovieDetails(tmdbId, ['credits', 'watch/providers', 'release_dates'], mediaType), region, availabilityTypes);
+          // Checked after the last await, since two titles can resolve to one movie
+          if (shown.some(s => isSameMovie(s, resolved))) {
+            return 'dropped';
+          }
+          if (filterActive && !movieMatchesServices(description.availability, services, region, availabilityTypes)) {
+            return 'miss';
+          }
+          if (hasConstraints(constraints) && constraintViolations(description.facts, constraints, region).length > 0) {
+            return 'miss';
+          }
+          if (hasLanguagePreferences(languages) && !matchesLanguagePreferences(description.original_language, languages)) {
+            return 'miss';
+          }
+
+          shown.push(resolved);
+          shownGenres.push(...description.genres);
+          send('recommendation', { recommendation: resolved, description });
+          return 'shown';
+        } catch (error) {
+          console.error(`Could not verify ${formatMovie(recommendation)}:`, error);
+          return 'dropped';
+        }
+      };
+
+      // Same server-side filtering as /api/recommend, applied per item as it
+      // streams in: excluded titles, picks of the wrong media type and direct
+      // sequels/prequels are skipped.
+      const accepted: Recommendation[] = [];
+      const verifications: Promise<Verification>[] = [];
+      const consider = (recommendation: Recommendation | null) => {
+        if (!recommendation) return;
+        if (isExcludedMovie(recommendation, excludeMovies, seenMovies)) return;
+        if (!matchesMediaChoice(recommendation, mediaChoice)) return;
+        if (accepted.some(k => isLikelySequelPair(k.title, recommendation.title))) return;
+        accepted.push(recommendation);
+        verifications.push(verify(recommendation));
+      };
+
+      try {
+        if (engine === 'llm') {
+          try {
+            const completion = llm.stream({
+              messages: buildRecommendMessages({ seedRefs, movies, mood, participants, dislikedMovies, excludeMovies, seenMovies, services, region, availabilityTypes, preferPopular, mediaChoice, constraints, languages }),
+              temperature: 0.7,
+              maxTokens: RECOMMEND_MAX_TOKENS,
+              responseFormat: RECOMMENDATIONS_RESPONSE_FORMAT,
+              useOriginalModel,
+            });
+
+            const extractItems = createJsonItemExtractor();
+            for await (const content of completion) {
+              extractItems(content).forEach(item => consider(toRecommendation(item, seedTitles)));
+            }
+            // Output that wasn't the expected list, or picks that were mostly
+            // excluded, leave the batch short; the TMDB engine tops it up
+            if (accepted.length < RECOMMENDATION_COUNT) {
+              console.error(`Streaming LLM returned ${accepted.length} usable recommendations, topping up with the TMDB engine.`);
+              engine = 'tmdb';
+            }
+          } catch (error) {
+            console.error('Streaming LLM recommendations failed, falling back to the TMDB engine:', error);
+            engine = 'tmdb';
+          }
+        }
+
+        // Tops up whatever the model managed before failing, or fills the whole batch
+        if (engine === 'tmdb') {
+          const { recommendations: picks, unresolvedSeeds: unresolved } = await recommendFromTmdb({
+            seedRefs,
+            movies,
+            participants,
+            dislikedMovies,
+            excludeMovies: [...excludeMovies, ...accepted],
+            seenMovies,
+            services,
+            region,
+            availabilityTypes,
+            count: RECOMMENDATION_COUNT - accepted.length,
+            preferPopular,
+            mediaChoice,
+            constraints,
+            languages,
+          });
+          picks.forEach(consider);
+          unresolved.forEach(seed => unresolvedSeeds.add(seed));
+        }
+
+        const misses = (await Promise.all(verifications)).filter(v => v === 'miss').length;
+        if (misses > 0) {
+          send('backfill', { count: misses });
+          const { recommendations: replacements, unresolvedSeeds: unresolved } = await findBackfillPicks({
+            seedRefs,
+            movies,
+            participants,
+            mood,
+            dislikedMovies,
+            excludeMovies: [...excludeMovies, ...accepted, ...shown],
+            seenMovies,
+            services,
+            region,
+            availabilityTypes,
+            genres: Array.from(new Set(shownGenres)).slice(0, 4),
+            count: misses,
+            preferPopular,
+            useOriginalModel,
+            engine,
+            mediaChoice,
+            constraints,
+            languages,
+          }).catch(error => {
+            console.error('Streaming filter backfill failed:', error);
+            return { recommendations: [] as Recommendation[], unresolvedSeeds: [] as string[] };
+          });
+          unresolved.forEach(seed => unresolvedSeeds.add(seed));
+          await Promise.all(replacements.map(verify));
+        }
+
+        send('done', { count: shown.length, engine, unresolvedSeeds: Array.from(unresolvedSeeds) });
+      } catch (error) {
+        console.error('Streaming recommendations failed:', error);
+        send('error', { error: 'Failed to get recommendations. Please try again.' });
+      } finally {
+        if (!closed) controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
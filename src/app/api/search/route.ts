@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { TitleSuggestion, mediaTypesFor, toMediaChoice } from '@/app/lib/recommendations';
+import { describeTmdbError, isTmdbConfigured, mediaTypeOf, releaseYear, suggestTitles, tmdbImageUrl } from '@/app/lib/tmdbClient';
+
+// Title autocomplete for the seed input: `?q=` is what the user has typed so
+// far (a "(Year)" suffix narrows it), `?media=` the movies/series choice. Each
+// suggestion carries the exact TMDB id, so a picked seed never has to be
+// searched for again.
+export async function GET(request: Request) {
+  try {
+    if (!isTmdbConfigured()) {
+      return NextResponse.json(
+        { error: 'Movie API key is not configured' },
+        { status: 500 }
+      );
+    }
+
+    const params = new URL(request.url).searchParams;
+    const query = (params.get('q') || '').trim();
+    const matches = await suggestTitles(query, mediaTypesFor(toMediaChoice(params.get('media'))));
+    const results: TitleSuggestion[] = matches.map(match => {
+      const year = Number(releaseYear(match.release_date));
+      return {
+        title: match.title,
+        ...(year ? { year } : {}),
+        tmdbId: match.id,
+        ...(mediaTypeOf(match) === 'tv' ? { mediaType: 'tv' as const } : {}),
+        posterUrl: tmdbImageUrl(match.poster_path),
+      };
+    });
+    return NextResponse.json({ results });
+  } catch (error: unknown) {
+    const { message, status } = describeTmdbError(error, 'Failed to search titles');
+    return NextResponse.json(
+      { error: message },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { readLimitedText } from '@/app/lib/requestBody';
+import { getShareStore } from '@/app/lib/shareStore';
+import { toSharedRun } from '@/app/lib/shares';
+
+// A shared run is capped at 30 picks, which fits well within this
+const MAX_BODY_BYTES = 512 * 1024;
+
+// Saves a recommendation run for sharing and returns its id; the run is then
+// readable at /share/<id>. Answers 501 when no store is configured, so the
+// page never hands out a link that won't outlive this process.
+export async function POST(request: Request) {
+  const store = getShareStore();
+  if (!store) {
+    return NextResponse.json({ error: 'Sharing is not configured on this server' }, { status: 501 });
+  }
+
+  try {
+    const text = await readLimitedText(request, MAX_BODY_BYTES);
+    if (text === null) {
+      return NextResponse.json({ error: 'That list is too large to share' }, { status: 413 });
+    }
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+    const run = toSharedRun(body);
+    if (!run) {
+      return NextResponse.json({ error: 'There are no recommendations to share' }, { status: 400 });
+    }
+    const id = await store.save(run);
+    return NextResponse.json({ id });
+  } catch (error) {
+    console.error('Share save failed:', error);
+    return NextResponse.json({ error: 'Failed to save the shared list' }, { status: 500 });
+  }
+}
@@ -1,32 +1,18 @@
 import { NextResponse } from 'next/server';
+import { toMediaChoice } from '@/app/lib/recommendations';
+import { toAvailabilityTypes, toServiceNames, toWatchRegion } from '@/app/lib/streamingProviders';
+import { describeTmdbError, isTmdbConfigured } from '@/app/lib/tmdbClient';
+import { fetchTrendingPage, toTrendingGenreId, toTrendingPage, toTrendingWindow } from '@/app/lib/trending';
 
-const TMDB_API_KEY = process.env.TMDB_API_KEY;
-const TMDB_BASE_URL = 'https://api.themoviedb.org/3';
-
-interface TrendingMovie {
-  id: number;
-  title: string;
-  poster_path: string;
-  release_date: string;
-  vote_average: number;
-}
-
-interface TrendingResponse {
-  results: TrendingMovie[];
-}
-
-interface TMDBError {
-  message: string;
-  type?: string;
-  response?: {
-    data?: unknown;
-    status?: number;
-  };
-}
-
-export async function GET() {
+// `?media=tv` lists trending series and `?media=both` interleaves series with
+// movies; movies only by default. `?window=day` switches from this week's
+// list to today's, `?page=` pages through it and `?genre=` (a TMDB_GENRE_IDS
+// name) narrows it. `?region=`, `?services=` and `?types=` (comma-separated
+// service names and availability types) keep only titles the user can watch,
+// the same way the recommendation streaming filter does.
+export async function GET(request: Request) {
   try {
-    if (!TMDB_API_KEY) {
+    if (!isTmdbConfigured()) {
       console.error('TMDB_API_KEY is not set in environment variables.');
       return NextResponse.json(
         { error: 'Server configuration error: TMDB API key is missing.' },
@@ -34,38 +20,26 @@ export async function GET() {
       );
     }
 
-    console.log('Attempting to fetch trending movies from TMDB.');
-    const response = await fetch(
-      `${TMDB_BASE_URL}/trending/movie/week`,
-      {
-        headers: {
-          'Authorization': `Bearer ${TMDB_API_KEY}`,
-          'accept': 'application/json'
-        }
-      }
-    );
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`Failed to fetch trending movies: ${response.status} - ${errorText}`);
-      throw new Error(`Failed to fetch trending movies: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json() as TrendingResponse;
-    console.log('Successfully fetched trending movies.', data.results.length);
+    const params = new URL(request.url).searchParams;
+    const region = toWatchRegion(params.get('region'));
+    const query = {
+      media: toMediaChoice(params.get('media')),
+      window: toTrendingWindow(params.get('window')),
+      page: toTrendingPage(params.get('page')),
+      genreId: toTrendingGenreId(params.get('genre')),
+      region,
+      services: toServiceNames(params.get('services')?.split(','), region),
+      availabilityTypes: toAvailabilityTypes(params.get('types')?.split(',')),
+    };
+    console.log(`Attempting to fetch trending ${query.media} titles from TMDB (${query.window}, page ${query.page}).`);
+    const data = await fetchTrendingPage(query);
+    console.log('Successfully fetched trending titles.', data.results.length);
     return NextResponse.json(data);
   } catch (error: unknown) {
-    const tmdbError = error as TMDBError;
-    console.error('Error fetching trending movies:', {
-      message: tmdbError.message,
-      type: tmdbError.type,
-      response: tmdbError.response?.data,
-      status: tmdbError.response?.status
-    });
-    
+    const { status } = describeTmdbError(error);
     return NextResponse.json(
       { error: 'Failed to fetch trending movies' },
-      { status: tmdbError.response?.status || 500 }
+      { status }
     );
   }
-} 
\ No newline at end of file
+}
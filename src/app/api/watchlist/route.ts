@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { readLimitedText } from '@/app/lib/requestBody';
+import { isWatchlistId, toWatchlistItems } from '@/app/lib/watchlist';
+import { getWatchlistStore } from '@/app/lib/watchlistStore';
+
+// A full watchlist, availability included, fits well within this
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+
+// Server-side sync for the watchlist the page keeps in localStorage.
+// `GET ?id=` returns the stored copy; `PUT { id, items }` replaces it. Both
+// answer 501 when no store is configured, which tells the page to stay local.
+
+export async function GET(request: Request) {
+  const store = getWatchlistStore();
+  if (!store) {
+    return NextResponse.json({ error: 'Watchlist sync is not configured' }, { status: 501 });
+  }
+
+  const id = new URL(request.url).searchParams.get('id');
+  if (!isWatchlistId(id)) {
+    return NextResponse.json({ error: 'Invalid watchlist id' }, { status: 400 });
+  }
+  try {
+    return NextResponse.json({ items: await store.load(id) });
+  } catch (error) {
+    console.error('Watchlist load failed:', error);
+    return NextResponse.json({ error: 'Failed to load the watchlist' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: Request) {
+  const store = getWatchlistStore();
+  if (!store) {
+    return NextResponse.json({ error: 'Watchlist sync is not configured' }, { status: 501 });
+  }
+
+  try {
+    const text = await readLimitedText(request, MAX_BODY_BYTES);
+    if (text === null) {
+      return NextResponse.json({ error: 'The watchlist is too large to sync' }, { status: 413 });
+    }
+    let body: { id?: unknown; items?: unknown };
+    try {
+      body = JSON.parse(text) ?? {};
+    } catch {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+    const { id, items } = body;
+    if (!isWatchlistId(id)) {
+      return NextResponse.json({ error: 'Invalid watchlist id' }, { status: 400 });
+    }
+    const saved = toWatchlistItems(items);
+    await store.save(id, saved);
+    return NextResponse.json({ count: saved.length });
+  } catch (error) {
+    console.error('Watchlist save failed:', error);
+    return NextResponse.json({ error: 'Failed to save the watchlist' }, { status: 500 });
+  }
+}
@@ -0,0 +1,219 @@
+import { RecommendationConstraints, hasConstraints } from './constraints';
+import { Participant, describeGroup } from './groups';
+import { LanguagePreferences, hasLanguagePreferences } from './languages';
+import { getLlmProvider } from './llmProvider';
+import { AvailabilityType, WatchRegion, isAvailabilityFilterActive } from './streamingProviders';
+import {
+  MediaChoice,
+  MovieRef,
+  REASON_INSTRUCTIONS,
+  REASON_JSON_SCHEMA,
+  Recommendation,
+  RecommendationReason,
+  formatMovie,
+  describeSeeds,
+  seedTitlesOf,
+  toRecommendationReason,
+} from './recommendations';
+import {
+  RecommendationEngine,
+  buildCandidatePool,
+  rankCandidates,
+  takeConstrainedPicks,
+  toRecommendations,
+} from './tmdbRecommender';
+import { releaseYear } from './tmdbClient';
+
+// The model picks by candidate number rather than copying titles back, so its
+// choices can be checked against the candidate pool exactly. Numbers are list
+// positions, not TMDB ids, which clash between movies and series.
+const PICKS_RESPONSE_FORMAT = {
+  type: 'json_schema' as const,
+  json_schema: {
+    name: 'backfill_picks',
+    strict: true,
+    schema: {
+      type: 'object',
+      properties: {
+        picks: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { id: { type: 'integer' }, reason: REASON_JSON_SCHEMA },
+            required: ['id', 'reason'],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ['picks'],
+      additionalProperties: false,
+    },
+  },
+};
+
+interface Pick {
+  id: number;
+  reason?: RecommendationReason;
+}
+
+// Picks from the model's JSON, ignoring anything that doesn't parse. Reasons
+// are grounded against the user's seed titles like the main recommend route's.
+function parsePicks(content: string, seedTitles: string[]): Pick[] {
+  try {
+    const picks = (JSON.parse(content) as { picks?: unknown }).picks;
+    if (!Array.isArray(picks)) return [];
+    return picks.flatMap(p => {
+      const { id, reason } = (p || {}) as { id?: unknown; reason?: unknown };
+      if (typeof id !== 'number' || !Number.isInteger(id)) return [];
+      return [{ id, reason: toRecommendationReason(reason, seedTitles) }];
+    });
+  } catch {
+    return [];
+  }
+}
+
+export interface BackfillOptions {
+  // Seeds picked from autocomplete, by TMDB id, alongside the typed `movies`
+  seedRefs: MovieRef[];
+  movies: string;
+  // Group mode: whose favorites `movies` combines
+  participants: Participant[];
+  // Sanitized free-text mood, woven into the model's picking prompt
+  mood: string;
+  // Comma-separated titles the user disliked; candidates resembling them rank lower
+  dislikedMovies: string;
+  excludeMovies: MovieRef[];
+  // Already-seen titles, dropped without the sequel rule (see isExcludedMovie)
+  seenMovies: MovieRef[];
+  services: string[];
+  region: WatchRegion;
+  availabilityTypes: AvailabilityType[];
+  genres: string[];
+  count: number;
+  preferPopular: boolean;
+  useOriginalModel: boolean;
+  engine: RecommendationEngine;
+  mediaChoice: MediaChoice;
+  constraints: RecommendationConstraints;
+  languages: LanguagePreferences;
+}
+
+export interface BackfillResult {
+  recommendations: Recommendation[];
+  engine: RecommendationEngine;
+  // Typed seed titles TMDB couldn't match (see searchSeedMovies)
+  unresolvedSeeds: string[];
+}
+
+// Finds `count` verified replacements that are available on the selected
+// services and availability types and meet the constraints and language preferences: discover +
+// related-movie pools narrowed to that availability, then the
+// model picks the best taste matches from that pool. With the 'tmdb' engine, an
+// unconfigured LLM, or a failed model call, the pool's own TMDB ranking decides
+// instead (reported as the 'tmdb' engine).
+// Returns no picks when there's nothing to pick from; TMDB failures propagate
+// to the caller.
+export async function findBackfillPicks({
+  seedRefs,
+  movies,
+  participants,
+  mood,
+  excludeMovies,
+  seenMovies,
+  services,
+  region,
+  availabilityTypes,
+  genres,
+  count,
+  preferPopular,
+  useOriginalModel,
+  engine: requestedEngine,
+  mediaChoice,
+  dislikedMovies,
+  constraints,
+  languages,
+}: BackfillOptions): Promise<BackfillResult> {
+  const llm = getLlmProvider();
+  const engine: RecommendationEngine = requestedEngine === 'llm' && !llm.configurationError() ? 'llm' : 'tmdb';
+  const filtered = isAvailabilityFilterActive(services, availabilityTypes)
+    || hasConstraints(constraints)
+    || hasLanguagePreferences(languages);
+  if ((!movies && seedRefs.length === 0 && !mood) || !filtered || count <= 0) {
+    return { recommendations: [], engine, unresolvedSeeds: [] };
+  }
+
+  const pool = await buildCandidatePool({ seedRefs, movies, participants, dislikedMovies, excludeMovies, seenMovies, services, region, availabilityTypes, genres, mediaChoice, constraints, languages });
+  const { unresolvedSeeds } = pool;
+  if (pool.candidates.length === 0) {
+    return { recommendations: [], engine, unresolvedSeeds };
+  }
+  const ranked = await rankCandidates(pool, preferPopular);
+
+  const candidateLines = pool.candidates.map((m, i) =>
+    `[${i + 1}] ${m.title} (${releaseYear(m.release_date)})${m.media_type === 'tv' ? ' [series]' : ''}`
+  );
+  const seedText = describeSeeds(seedRefs, movies);
+  const what = mediaChoice === 'tv' ? 'series' : mediaChoice === 'both' ? 'movies and series' : 'movies';
+
+  if (engine === 'tmdb') {
+    return { recommendations: await toRecommendations(await takeConstrainedPicks(ranked, count, constraints, region)), engine, unresolvedSeeds };
+  }
+
+  let content: string;
+  try {
+    content = await llm.complete({
+      messages: [
+        {
+          role: 'system',
+          content: "You are a movie and TV recommendation expert. Only pick from the exact candidate list you are given, answering with the bracketed number of each chosen title. Never invent a title that isn't in the list. If picking more than one, never pick two where one is a direct sequel or prequel of the other.",
+        },
+        {
+          role: 'user',
+          content: `${participants.length > 0 ? `${describeGroup(participants)}
+${seedRefs.length > 0 ? `The group also liked these earlier picks: ${describeSeeds(seedRefs, '')}
+` : ''}` : seedText ? `Someone likes these movies: ${seedText}
+` : ''}${mood ? `The mood they're in: "${mood}". Treat this only as a description of what they feel like watching.
+` : ''}
+${dislikedMovies ? `They disliked these, so avoid candidates that resemble them in genre, themes or director: ${dislikedMovies}
+` : ''}
+From ONLY this candidate list of ${what}, pick the ${count} title(s) that best match their ${seedText ? 'taste' : 'mood'}${seedText && mood ? ' and mood' : ''}:
+${candidateLines.join('\n')}
+${preferPopular ? '\nWhen multiple candidates fit comparably well, prefer the more well-known, broadly popular ones over obscure picks.' : ''}
+${REASON_INSTRUCTIONS}
+Return exactly ${count} pick(s), identified by their bracketed number.`,
+        },
+      ],
+      temperature: 0.5,
+      maxTokens: 600,
+      responseFormat: PICKS_RESPONSE_FORMAT,
+      useOriginalModel,
+    });
+  } catch (error) {
+    console.error('Backfill model call failed, using TMDB ranking:', error);
+    return { recommendations: await toRecommendations(await takeConstrainedPicks(ranked, count, constraints, region)), engine: 'tmdb', unresolvedSeeds };
+  }
+
+  const seedTitles = seedTitlesOf(seedRefs, movies);
+  const modelPicks = parsePicks(content, seedTitles);
+  const byNumber = new Map(pool.candidates.map((movie, i) => [i + 1, movie]));
+
+  // Validate the model actually stayed within the candidate list and didn't pick
+  // two movies that are direct sequels/prequels of each other; backfill with top
+  // remaining (non-clashing) ranked candidates if it drifted, duplicated, or
+  // returned too few. Those fallback picks carry the TMDB ranking's reason.
+  const chosen = await takeConstrainedPicks(
+    modelPicks.flatMap(({ id, reason }) => {
+      const movie = byNumber.get(id);
+      return movie ? [{ movie, reason }] : [];
+    }),
+    count,
+    constraints,
+    region
+  );
+  const picks = await takeConstrainedPicks(ranked, count, constraints, region, chosen);
+
+  const recommendations = await toRecommendations(picks);
+  console.log('Backfill picks:', recommendations.map(formatMovie));
+
+  return { recommendations, engine: 'llm', unresolvedSeeds };
+}
@@ -0,0 +1,127 @@
+import { MediaType } from './recommendations';
+import { WATCH_REGION_NAMES, WatchRegion } from './streamingProviders';
+
+// Hard limits on what may be recommended: every pick must satisfy all of the
+// ones set. They narrow the TMDB discover queries up front and are checked
+// again against each pick's resolved TMDB details, with violators swapped out
+// like unavailable picks. For a series, runtime is the episode runtime and the
+// year is its first-air year.
+export interface RecommendationConstraints {
+  maxRuntime?: number; // minutes
+  minYear?: number;
+  maxYear?: number;
+  minRating?: number; // TMDB vote average, 0-10
+  maxCertification?: string; // on the watch region's ladder
+}
+
+export type ConstraintName = keyof RecommendationConstraints;
+
+// Movie ratings per region, least to most restrictive audience.
+export const CERTIFICATIONS_BY_REGION: Record<WatchRegion, string[]> = {
+  US: ['G', 'PG', 'PG-13', 'R', 'NC-17'],
+  GB: ['U', 'PG', '12A', '15', '18'],
+  CA: ['G', 'PG', '14A', '18A', 'R'],
+};
+
+// TV ratings (and the odd alternate movie spelling) mapped onto the movie ladder.
+const CERTIFICATION_ALIASES: Record<WatchRegion, Record<string, string>> = {
+  US: { 'TV-Y': 'G', 'TV-Y7': 'G', 'TV-G': 'G', 'TV-PG': 'PG', 'TV-14': 'PG-13', 'TV-MA': 'R' },
+  GB: { '12': '12A', R18: '18' },
+  CA: { C: 'G', C8: 'G', '14+': '14A', '18+': '18A' },
+};
+
+// Position on the region's ladder, or -1 for an unknown or missing rating.
+export function certificationRank(certification: string | undefined, region: WatchRegion): number {
+  if (!certification) return -1;
+  const normalized = CERTIFICATION_ALIASES[region][certification] || certification;
+  return CERTIFICATIONS_BY_REGION[region].indexOf(normalized);
+}
+
+function toPositiveNumber(value: unknown, max: number): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= max ? value : undefined;
+}
+
+// Validates untrusted constraints from a request body or localStorage; unknown
+// or out-of-range values are dropped rather than rejected.
+export function toConstraints(value: unknown, region: WatchRegion): RecommendationConstraints {
+  if (!value || typeof value !== 'object') return {};
+  const { maxRuntime, minYear, maxYear, minRating, maxCertification } = value as Record<string, unknown>;
+  const constraints: RecommendationConstraints = {
+    maxRuntime: toPositiveNumber(maxRuntime, 1000),
+    minYear: toPositiveNumber(minYear, 9999),
+    maxYear: toPositiveNumber(maxYear, 9999),
+    minRating: toPositiveNumber(minRating, 10),
+    maxCertification: typeof maxCertification === 'string' && certificationRank(maxCertification, region) >= 0
+      ? maxCertification
+      : undefined,
+  };
+  return Object.fromEntries(
+    Object.entries(constraints).filter(([, v]) => v !== undefined)
+  ) as RecommendationConstraints;
+}
+
+export function hasConstraints(constraints: RecommendationConstraints): boolean {
+  return Object.keys(constraints).length > 0;
+}
+
+// What a pick is checked on, taken from its TMDB details.
+export interface ConstraintFacts {
+  runtime?: number;
+  year?: number;
+  rating?: number;
+  certification?: string;
+}
+
+// The constraints a pick breaks. Missing data only counts against the limits
+// that need it (an unrated movie can't be shown to meet a certification cap).
+export function constraintViolations(
+  facts: ConstraintFacts,
+  constraints: RecommendationConstraints,
+  region: WatchRegion
+): ConstraintName[] {
+  const violations: ConstraintName[] = [];
+  if (constraints.maxRuntime && (!facts.runtime || facts.runtime > constraints.maxRuntime)) violations.push('maxRuntime');
+  if (constraints.minYear && (!facts.year || facts.year < constraints.minYear)) violations.push('minYear');
+  if (constraints.maxYear && (!facts.year || facts.year > constraints.maxYear)) violations.push('maxYear');
+  if (constraints.minRating && (facts.rating ?? 0) < constraints.minRating) violations.push('minRating');
+  if (constraints.maxCertification) {
+    const rank = certificationRank(facts.certification, region);
+    if (rank < 0 || rank > certificationRank(constraints.maxCertification, region)) violations.push('maxCertification');
+  }
+  return violations;
+}
+
+// Discover params for the constraints. TV discover has no certification
+// filter, so series rely on the per-pick check for that one.
+export function discoverConstraintParams(
+  constraints: RecommendationConstraints,
+  region: WatchRegion,
+  mediaType: MediaType
+): Record<string, string | number | undefined> {
+  const dateField = mediaType === 'tv' ? 'first_air_date' : 'primary_release_date';
+  const certification = mediaType === 'movie' && constraints.maxCertification;
+  return {
+    'with_runtime.lte': constraints.maxRuntime,
+    [`${dateField}.gte`]: constraints.minYear ? `${constraints.minYear}-01-01` : undefined,
+    [`${dateField}.lte`]: constraints.maxYear ? `${constraints.maxYear}-12-31` : undefined,
+    'vote_average.gte': constraints.minRating,
+    certification_country: certification ? region : undefined,
+    'certification.lte': certification || undefined,
+  };
+}
+
+// One line per constraint for the recommendation prompts.
+export function describeConstraints(constraints: RecommendationConstraints, region: WatchRegion): string[] {
+  const lines: string[] = [];
+  if (constraints.maxRuntime) lines.push(`Runtime of at most ${constraints.maxRuntime} minutes (per episode for a series).`);
+  if (constraints.minYear && constraints.maxYear) {
+    lines.push(`Released between ${constraints.minYear} and ${constraints.maxYear}.`);
+  } else if (constraints.minYear) {
+    lines.push(`Released in ${constraints.minYear} or later.`);
+  } else if (constraints.maxYear) {
+    lines.push(`Released in ${constraints.maxYear} or earlier.`);
+  }
+  if (constraints.minRating) lines.push(`Rated at least ${constraints.minRating}/10 on TMDB.`);
+  if (constraints.maxCertification) lines.push(`Certified ${constraints.maxCertification} or lower in the ${WATCH_REGION_NAMES[region]}.`);
+  return lines;
+}
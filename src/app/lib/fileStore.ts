@@ -0,0 +1,44 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash, randomBytes } from 'crypto';
+
+// Durable JSON storage for user data (synced watchlists, shared runs). One
+// file per key, like the TMDB cache's file backend, but nothing expires or is
+// evicted, and disk errors reach the caller instead of being logged away: a
+// save that didn't land must not be reported as saved.
+
+export interface JsonFileStore {
+  // Undefined when nothing is stored under the key
+  read<T>(key: string): Promise<T | undefined>;
+  write<T>(key: string, value: T): Promise<void>;
+}
+
+export function createJsonFileStore(dir: string): JsonFileStore {
+  const fileFor = (key: string) =>
+    path.join(dir, `${createHash('sha1').update(key).digest('hex')}.json`);
+
+  return {
+    async read<T>(key: string) {
+      try {
+        return JSON.parse(await fs.readFile(fileFor(key), 'utf8')) as T;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+        throw error;
+      }
+    },
+    // Written beside the old file and renamed over it, so a failed write
+    // leaves the previous copy intact rather than a truncated one
+    async write<T>(key: string, value: T) {
+      const file = fileFor(key);
+      const temp = `${file}.${randomBytes(4).toString('hex')}.tmp`;
+      await fs.mkdir(dir, { recursive: true });
+      try {
+        await fs.writeFile(temp, JSON.stringify(value));
+        await fs.rename(temp, file);
+      } catch (error) {
+        await fs.rm(temp, { force: true });
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,82 @@
+import { normalizeMovieTitle } from './movieMatching';
+import { parseMovieList } from './recommendations';
+
+// Group movie-night mode: each participant brings their own favorites and
+// streaming services, and recommendations aim for what the group has in
+// common rather than for whoever listed the most titles.
+export interface Participant {
+  name: string;
+  // Comma-separated favorites, like the solo seed input
+  movies: string;
+  services: string[];
+}
+
+export const MAX_PARTICIPANTS = 8;
+const MAX_NAME_LENGTH = 40;
+
+// 'union' keeps anything on anyone's services; 'intersection' only what
+// everyone who listed services can watch.
+export const GROUP_SERVICE_MODES = ['union', 'intersection'] as const;
+export type GroupServiceMode = typeof GROUP_SERVICE_MODES[number];
+
+export function toGroupServiceMode(value: unknown): GroupServiceMode {
+  return value === 'intersection' ? 'intersection' : 'union';
+}
+
+// Validates untrusted participants from a request body or localStorage.
+// Unnamed participants are numbered; ones with no favorites are dropped, as
+// are any past MAX_PARTICIPANTS.
+export function toParticipants(value: unknown): Participant[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .flatMap((item, i) => {
+      if (!item || typeof item !== 'object') return [];
+      const { name, movies, services } = item as Record<string, unknown>;
+      if (typeof movies !== 'string' || !movies.trim()) return [];
+      return [{
+        name: (typeof name === 'string' && name.trim().slice(0, MAX_NAME_LENGTH)) || `Person ${i + 1}`,
+        movies: movies.trim(),
+        services: Array.isArray(services) ? services.filter((s): s is string => typeof s === 'string') : [],
+      }];
+    })
+    .slice(0, MAX_PARTICIPANTS);
+}
+
+// The services the streaming filter uses for the group. Participants who
+// listed none don't constrain an intersection; when those who did share
+// nothing at all, it falls back to the union rather than matching nothing.
+export function groupServices(participants: Participant[], mode: GroupServiceMode): string[] {
+  const lists = participants.map(p => p.services).filter(list => list.length > 0);
+  const union = Array.from(new Set(lists.flat()));
+  if (mode === 'union' || lists.length === 0) return union;
+  const shared = union.filter(service => lists.every(list => list.includes(service)));
+  return shared.length > 0 ? shared : union;
+}
+
+// Everyone's favorites as one seed list, for the parts of the pipeline that
+// don't care who listed what.
+export function groupMovieList(participants: Participant[]): string {
+  return participants.map(p => p.movies).join(', ');
+}
+
+// Who listed a seed title, matched on the normalized title.
+export function participantsForSeed(seed: string, participants: Participant[]): string[] {
+  const wanted = normalizeMovieTitle(seed);
+  return participants
+    .filter(p => parseMovieList(p.movies).some(movie => normalizeMovieTitle(movie.title) === wanted))
+    .map(p => p.name);
+}
+
+// The participants whose favorites a pick draws on, from its reason's seeds.
+export function participantsForSeeds(seeds: string[], participants: Participant[]): string[] {
+  const names = new Set(seeds.flatMap(seed => participantsForSeed(seed, participants)));
+  return participants.map(p => p.name).filter(name => names.has(name));
+}
+
+// The prompt section describing the group, in place of the solo seed list.
+export function describeGroup(participants: Participant[]): string {
+  return `This is a group movie night with ${participants.length} people. Each person's favorites:
+${participants.map(p => `${p.name}: ${p.movies}`).join('\n')}
+
+Aim for picks that bridge several people's tastes, favoring overlap across the group over fitting any one list closely, and don't let the longest list dominate. Across the picks, draw on every person's favorites at least once. In each reason, "seeds" should list the favorites (from any person) the pick draws on.`;
+}
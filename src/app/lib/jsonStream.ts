@@ -0,0 +1,45 @@
+// Pulls complete objects out of a JSON array while the document is still being
+// streamed, e.g. each item of `{"recommendations": [{...}, {...}]}` as soon as
+// its closing brace arrives. Objects at `itemDepth` (1 = inside the outermost
+// container) are returned; nested objects stay part of their parent item.
+export function createJsonItemExtractor(itemDepth = 2) {
+  let buffer = '';
+  let position = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let itemStart = -1;
+
+  return (chunk: string): unknown[] => {
+    buffer += chunk;
+    const items: unknown[] = [];
+
+    for (; position < buffer.length; position++) {
+      const char = buffer[position];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        if (char === '{' && depth === itemDepth) itemStart = position;
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+        if (char === '}' && depth === itemDepth && itemStart !== -1) {
+          try {
+            items.push(JSON.parse(buffer.slice(itemStart, position + 1)));
+          } catch {
+            // a malformed item is skipped; later items can still parse
+          }
+          itemStart = -1;
+        }
+      }
+    }
+
+    return items;
+  };
+}
@@ -0,0 +1,76 @@
+// Original-language preferences: languages to include (only those) and to
+// exclude. Codes are TMDB's `original_language` values, which are ISO 639-1
+// except that TMDB files Cantonese under 'cn'.
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  ko: 'Korean',
+  ja: 'Japanese',
+  zh: 'Mandarin',
+  cn: 'Cantonese',
+  hi: 'Hindi',
+  fr: 'French',
+  es: 'Spanish',
+  it: 'Italian',
+  de: 'German',
+  pt: 'Portuguese',
+  sv: 'Swedish',
+  da: 'Danish',
+  no: 'Norwegian',
+  tr: 'Turkish',
+  th: 'Thai',
+};
+
+export const LANGUAGE_CODES = Object.keys(LANGUAGE_NAMES);
+
+export interface LanguagePreferences {
+  include: string[];
+  exclude: string[];
+}
+
+export const NO_LANGUAGE_PREFERENCES: LanguagePreferences = { include: [], exclude: [] };
+
+// Names for codes outside the picker fall back to the code itself.
+export function languageName(code: string): string {
+  return LANGUAGE_NAMES[code] || code.toUpperCase();
+}
+
+function toLanguageCodes(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return LANGUAGE_CODES.filter(code => value.includes(code));
+}
+
+// A language can't be both included and excluded; the include wins.
+export function toLanguagePreferences(value: unknown): LanguagePreferences {
+  if (!value || typeof value !== 'object') return NO_LANGUAGE_PREFERENCES;
+  const { include, exclude } = value as Record<string, unknown>;
+  const included = toLanguageCodes(include);
+  return { include: included, exclude: toLanguageCodes(exclude).filter(code => !included.includes(code)) };
+}
+
+export function hasLanguagePreferences(preferences: LanguagePreferences): boolean {
+  return preferences.include.length > 0 || preferences.exclude.length > 0;
+}
+
+// Titles whose language isn't known only pass when nothing is required of it.
+export function matchesLanguagePreferences(code: string | undefined, preferences: LanguagePreferences): boolean {
+  if (preferences.include.length > 0) return Boolean(code && preferences.include.includes(code));
+  return !code || !preferences.exclude.includes(code);
+}
+
+// Discover's `with_original_language` ('|' is OR); it has no exclusion
+// counterpart, so excluded languages are filtered out of the results instead.
+export function discoverLanguageParams(preferences: LanguagePreferences): { with_original_language: string | undefined } {
+  return { with_original_language: preferences.include.join('|') || undefined };
+}
+
+// Prompt lines for the recommendation prompts.
+export function describeLanguagePreferences(preferences: LanguagePreferences): string[] {
+  const lines: string[] = [];
+  if (preferences.include.length > 0) {
+    lines.push(`Only recommend titles originally in ${preferences.include.map(languageName).join(' or ')}.`);
+  }
+  if (preferences.exclude.length > 0) {
+    lines.push(`Do not recommend titles originally in ${preferences.exclude.map(languageName).join(' or ')}.`);
+  }
+  return lines;
+}
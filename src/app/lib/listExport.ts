@@ -0,0 +1,72 @@
+import type { MovieDescriptionPayload } from './movieDescription';
+import { MovieRef, formatMovie } from './recommendations';
+
+// Exports a list of titles (a result list, the watchlist, the seen list) as a
+// file the user downloads: a CSV Letterboxd's list importer reads, plain JSON
+// with each title's /api/description payload, or a Markdown checklist.
+
+export const EXPORT_FORMATS = ['letterboxd', 'json', 'markdown'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  letterboxd: 'Letterboxd CSV',
+  json: 'JSON',
+  markdown: 'Markdown',
+};
+
+// A title to export, with its TMDB details when they could be loaded
+export interface ExportEntry extends MovieRef {
+  director?: string;
+  details?: Partial<MovieDescriptionPayload>;
+}
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function tmdbIdOf(entry: ExportEntry): number | undefined {
+  return entry.tmdbId ?? entry.details?.tmdb_id;
+}
+
+// Letterboxd only catalogues films, so series are left out.
+export function toLetterboxdCsv(entries: ExportEntry[]): string {
+  const rows = entries
+    .filter(entry => (entry.mediaType || entry.details?.media_type || 'movie') === 'movie')
+    .map(entry => [entry.title, entry.year ? String(entry.year) : '', String(tmdbIdOf(entry) ?? '')].map(csvField).join(','));
+  return ['Title,Year,tmdbID', ...rows].join('\n') + '\n';
+}
+
+export function toExportJson(listName: string, entries: ExportEntry[]): string {
+  return JSON.stringify({
+    list: listName,
+    exportedAt: new Date().toISOString(),
+    items: entries.map(({ details, ...entry }) => ({ ...entry, tmdbId: tmdbIdOf({ ...entry, details }), tmdb: details ?? null })),
+  }, null, 2) + '\n';
+}
+
+export function toMarkdownChecklist(listName: string, entries: ExportEntry[]): string {
+  const lines = entries.map(entry => {
+    const label = formatMovie({ title: entry.title, year: entry.year, director: entry.director });
+    const series = (entry.mediaType || entry.details?.media_type) === 'tv' ? ' (series)' : '';
+    return `- [ ] ${entry.details?.tmdb_url ? `[${label}](${entry.details.tmdb_url})` : label}${series}`;
+  });
+  return [`# ${listName}`, '', ...lines].join('\n') + '\n';
+}
+
+export function exportFile(format: ExportFormat, listName: string, entries: ExportEntry[]): ExportFile {
+  const base = listName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'list';
+  switch (format) {
+    case 'letterboxd':
+      return { filename: `${base}-letterboxd.csv`, mimeType: 'text/csv', content: toLetterboxdCsv(entries) };
+    case 'json':
+      return { filename: `${base}.json`, mimeType: 'application/json', content: toExportJson(listName, entries) };
+    case 'markdown':
+      return { filename: `${base}.md`, mimeType: 'text/markdown', content: toMarkdownChecklist(listName, entries) };
+  }
+}
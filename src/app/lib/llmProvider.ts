@@ -0,0 +1,254 @@
+import { readFileSync } from 'fs';
+import { OpenAI } from 'openai';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+
+// The chat-completion backend behind /api/recommend (one-shot and streaming)
+// and the backfill picker. Selected by LLM_PROVIDER:
+//
+//   openai (default)   api.openai.com with OPENAI_API_KEY; gpt-5.4-nano, or
+//                      gpt-4o-mini when the client asks for the original model
+//   openai-compatible  a self-hosted OpenAI-compatible server (llama.cpp,
+//                      Ollama, vLLM...) at LLM_BASE_URL, see createCompatibleProviderFromEnv
+//   scripted           canned, deterministic responses for offline testing,
+//                      optionally loaded from LLM_SCRIPT_FILE
+//
+// Callers only deal in messages, a token budget and a structured-output
+// format; per-model quirks (which token-limit parameter the API accepts,
+// whether json_schema is supported) are resolved here.
+
+export type TokenLimitParam = 'max_tokens' | 'max_completion_tokens';
+export type ResponseFormatSupport = 'json_schema' | 'json_object' | 'none';
+
+export interface LlmModelConfig {
+  model: string;
+  tokenLimitParam: TokenLimitParam;
+  responseFormat: ResponseFormatSupport;
+}
+
+export interface JsonSchemaResponseFormat {
+  type: 'json_schema';
+  json_schema: { name: string; strict?: boolean; schema: Record<string, unknown> };
+}
+
+export interface LlmRequest {
+  messages: ChatCompletionMessageParam[];
+  temperature: number;
+  maxTokens: number;
+  responseFormat: JsonSchemaResponseFormat;
+  // The client's "use original model" toggle; providers without a distinct
+  // original model ignore it.
+  useOriginalModel?: boolean;
+}
+
+export interface LlmProvider {
+  name: string;
+  // Why the provider can't run, or null when it's ready.
+  configurationError(): string | null;
+  complete(request: LlmRequest): Promise<string>;
+  stream(request: LlmRequest): AsyncIterable<string>;
+}
+
+const OPENAI_MODELS: Record<'current' | 'original', LlmModelConfig> = {
+  // The newer gpt-5.4-nano requires `max_completion_tokens`; the original
+  // gpt-4o-mini uses `max_tokens` — the API rejects the wrong one per model.
+  current: { model: 'gpt-5.4-nano', tokenLimitParam: 'max_completion_tokens', responseFormat: 'json_schema' },
+  original: { model: 'gpt-4o-mini', tokenLimitParam: 'max_tokens', responseFormat: 'json_schema' },
+};
+
+// Servers that can't enforce a json_schema still need to know the shape, so
+// it's spelled out in an extra system message instead.
+function withSchemaInstructions(messages: ChatCompletionMessageParam[], format: JsonSchemaResponseFormat): ChatCompletionMessageParam[] {
+  return [
+    ...messages,
+    {
+      role: 'system',
+      content: `Respond with a single JSON object and nothing else. It must match this JSON schema:\n${JSON.stringify(format.json_schema.schema)}`,
+    },
+  ];
+}
+
+function chatParams(config: LlmModelConfig, request: LlmRequest) {
+  const messages = config.responseFormat === 'json_schema'
+    ? request.messages
+    : withSchemaInstructions(request.messages, request.responseFormat);
+  return {
+    model: config.model,
+    messages,
+    temperature: request.temperature,
+    [config.tokenLimitParam]: request.maxTokens,
+    ...(config.responseFormat === 'json_schema' ? { response_format: request.responseFormat } : {}),
+    ...(config.responseFormat === 'json_object' ? { response_format: { type: 'json_object' as const } } : {}),
+  };
+}
+
+export function createOpenAiCompatibleProvider({
+  name,
+  apiKey,
+  baseURL,
+  models,
+  configurationError,
+}: {
+  name: string;
+  apiKey: string | undefined;
+  baseURL?: string;
+  models: Record<'current' | 'original', LlmModelConfig>;
+  configurationError: () => string | null;
+}): LlmProvider {
+  // Local servers generally ignore the key, but the SDK insists on one.
+  const client = new OpenAI({ apiKey: apiKey || 'not-needed', baseURL });
+  const modelFor = (request: LlmRequest) => (request.useOriginalModel ? models.original : models.current);
+
+  return {
+    name,
+    configurationError,
+    async complete(request) {
+      const completion = await client.chat.completions.create({
+        ...chatParams(modelFor(request), request),
+        stream: false,
+      });
+      return completion.choices[0]?.message?.content || '';
+    },
+    async *stream(request) {
+      const completion = await client.chat.completions.create({
+        ...chatParams(modelFor(request), request),
+        stream: true,
+      });
+      for await (const chunk of completion) {
+        const content = chunk.choices[0]?.delta?.content;
+        if (content) yield content;
+      }
+    },
+  };
+}
+
+const TOKEN_LIMIT_PARAMS: TokenLimitParam[] = ['max_tokens', 'max_completion_tokens'];
+const RESPONSE_FORMAT_SUPPORT: ResponseFormatSupport[] = ['json_schema', 'json_object', 'none'];
+
+function oneOfEnv<T extends string>(name: string, allowed: T[], fallback: T): T {
+  const value = process.env[name] as T | undefined;
+  return value && allowed.includes(value) ? value : fallback;
+}
+
+// A self-hosted server: LLM_BASE_URL (e.g. http://localhost:11434/v1), LLM_MODEL,
+// and optionally LLM_ORIGINAL_MODEL (defaults to LLM_MODEL), LLM_API_KEY,
+// LLM_TOKEN_PARAM (max_tokens by default, which is what most local servers
+// accept) and LLM_RESPONSE_FORMAT (json_schema, json_object or none, for
+// servers with weaker structured-output support).
+function createCompatibleProviderFromEnv(): LlmProvider {
+  const baseURL = process.env.LLM_BASE_URL;
+  const model = process.env.LLM_MODEL || '';
+  const shared = {
+    tokenLimitParam: oneOfEnv('LLM_TOKEN_PARAM', TOKEN_LIMIT_PARAMS, 'max_tokens'),
+    responseFormat: oneOfEnv('LLM_RESPONSE_FORMAT', RESPONSE_FORMAT_SUPPORT, 'json_schema'),
+  };
+  return createOpenAiCompatibleProvider({
+    name: 'openai-compatible',
+    apiKey: process.env.LLM_API_KEY,
+    baseURL,
+    models: {
+      current: { model, ...shared },
+      original: { model: process.env.LLM_ORIGINAL_MODEL || model, ...shared },
+    },
+    configurationError: () => {
+      if (!baseURL) return 'LLM_BASE_URL is not configured';
+      if (!model) return 'LLM_MODEL is not configured';
+      return null;
+    },
+  });
+}
+
+// Canned responses keyed by structured-output format name. Backfill's empty
+// picks make it fall back to its top-ranked candidates, which keeps that path
+// deterministic without knowing the candidate ids ahead of time.
+const DEFAULT_SCRIPT: Record<string, unknown> = {
+  movie_recommendations: {
+    recommendations: [
+      ['The Shawshank Redemption', 1994, 'Frank Darabont'],
+      ['Spirited Away', 2001, 'Hayao Miyazaki'],
+      ['Heat', 1995, 'Michael Mann'],
+      ['Amélie', 2001, 'Jean-Pierre Jeunet'],
+      ['Mad Max: Fury Road', 2015, 'George Miller'],
+      ['The Grand Budapest Hotel', 2014, 'Wes Anderson'],
+      ['Arrival', 2016, 'Denis Villeneuve'],
+    ].map(([title, year, director]) => ({
+      title,
+      year,
+      director,
+      media_type: 'movie',
+      reason: { seeds: [], dimensions: ['tone'], text: 'A scripted pick for offline testing.' },
+    })),
+  },
+  backfill_picks: { picks: [] },
+};
+
+// Splits the response into small chunks so streaming consumers see the same
+// kind of partial JSON a real model would produce.
+const SCRIPTED_CHUNK_LENGTH = 16;
+
+// `configurationError` marks a provider whose script couldn't be loaded, so
+// callers fall back as they would for any unconfigured provider.
+export function createScriptedProvider(
+  script: Record<string, unknown> = DEFAULT_SCRIPT,
+  configurationError: string | null = null
+): LlmProvider {
+  const respond = (request: LlmRequest) => {
+    const name = request.responseFormat.json_schema.name;
+    if (!(name in script)) {
+      throw new Error(`Scripted LLM provider has no response for "${name}"`);
+    }
+    const response = script[name];
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  };
+
+  return {
+    name: 'scripted',
+    configurationError: () => configurationError,
+    async complete(request) {
+      return respond(request);
+    },
+    async *stream(request) {
+      const content = respond(request);
+      for (let i = 0; i < content.length; i += SCRIPTED_CHUNK_LENGTH) {
+        yield content.slice(i, i + SCRIPTED_CHUNK_LENGTH);
+      }
+    },
+  };
+}
+
+function loadScript(file: string): Record<string, unknown> {
+  const script = JSON.parse(readFileSync(file, 'utf8')) as unknown;
+  if (!script || typeof script !== 'object' || Array.isArray(script)) {
+    throw new Error(`LLM_SCRIPT_FILE ${file} must contain a JSON object`);
+  }
+  return { ...DEFAULT_SCRIPT, ...script };
+}
+
+let sharedProvider: LlmProvider | null = null;
+
+export function getLlmProvider(): LlmProvider {
+  if (!sharedProvider) {
+    switch (process.env.LLM_PROVIDER) {
+      case 'openai-compatible':
+        sharedProvider = createCompatibleProviderFromEnv();
+        break;
+      case 'scripted': {
+        const file = process.env.LLM_SCRIPT_FILE;
+        try {
+          sharedProvider = createScriptedProvider(file ? loadScript(file) : DEFAULT_SCRIPT);
+        } catch (error) {
+          console.error(`Could not load LLM_SCRIPT_FILE ${file}:`, error);
+          sharedProvider = createScriptedProvider(DEFAULT_SCRIPT, `LLM_SCRIPT_FILE ${file} could not be loaded`);
+        }
+        break;
+      }
+      default:
+        sharedProvider = createOpenAiCompatibleProvider({
+          name: 'openai',
+          apiKey: process.env.OPENAI_API_KEY,
+          models: OPENAI_MODELS,
+          configurationError: () => (process.env.OPENAI_API_KEY ? null : 'OpenAI API key is not configured'),
+        });
+    }
+  }
+  return sharedProvider;
+}
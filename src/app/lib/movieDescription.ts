@@ -0,0 +1,81 @@
+import { ConstraintFacts } from './constraints';
+import { MediaType, formatSeasons } from './recommendations';
+import {
+  AVAILABILITY_TYPE_LABELS,
+  AvailabilityType,
+  DEFAULT_AVAILABILITY_TYPES,
+  ProviderAvailability,
+  WatchRegion,
+} from './streamingProviders';
+import { TmdbMovieDetails, constraintFacts, flatrateProviderNames, mediaTypeOf, providerAvailability, tmdbImageUrl, tmdbMovieUrl } from './tmdbClient';
+
+// The card payload /api/description returns, also sent inline with each movie
+// on the streaming recommend endpoint so cards don't need a second round-trip.
+export interface MovieDescriptionPayload {
+  description: string;
+  poster_path: string | null;
+  title: string;
+  tmdb_url: string;
+  tmdb_id: number;
+  media_type: MediaType;
+  streaming: string[];
+  // Every way to watch it in the region (used by the availability filter and badges)
+  availability: ProviderAvailability[];
+  genres: string[];
+  original_language: string;
+  // What the hard constraints are checked on
+  facts: ConstraintFacts;
+}
+
+// Expects details fetched with 'credits', 'watch/providers' and 'release_dates' appended.
+// Availability is reported for the user's watch region; the description lists
+// it for each of the user's selected availability types.
+export function buildMovieDescription(
+  movie_data: TmdbMovieDetails,
+  region: WatchRegion,
+  availabilityTypes: AvailabilityType[] = DEFAULT_AVAILABILITY_TYPES
+): MovieDescriptionPayload {
+  const genreNames: string[] = movie_data.genres.map(g => g.name);
+  const mediaType = mediaTypeOf(movie_data);
+
+  // Get top cast members (up to 3)
+  const topCast = (movie_data.credits?.cast || [])
+    .slice(0, 3)
+    .map(actor => actor.name)
+    .join(', ');
+
+  // Structured streaming providers (used for the streaming-service filter)
+  const streamingProviders = flatrateProviderNames(movie_data['watch/providers'], region);
+
+  const availability = providerAvailability(movie_data['watch/providers'], region);
+
+  // Format the selected ways to watch for the mobile description, e.g.
+  // "Subscription: Netflix · Rent: Apple TV"
+  const watchOptions = availabilityTypes
+    .map(type => {
+      const names = Array.from(new Set(availability.filter(a => a.type === type).map(a => a.name)));
+      return names.length > 0 ? `${AVAILABILITY_TYPE_LABELS[type]}: ${names.slice(0, 3).join(', ')}` : '';
+    })
+    .filter(Boolean);
+  const streamingInfo = `\n📺 Where to watch: ${watchOptions.length > 0 ? watchOptions.join(' · ') : 'Check streaming platforms'}`;
+
+  // Series list their length in seasons, with the typical episode runtime
+  const lengthInfo = mediaType === 'tv'
+    ? `${formatSeasons(movie_data.number_of_seasons)}${movie_data.runtime ? ` · ${movie_data.runtime}min episodes` : ''}`
+    : `${Math.floor(movie_data.runtime / 60)}h ${movie_data.runtime % 60}min`;
+
+  // Comprehensive movie information with TMDB attribution
+  return {
+    description: `${movie_data.overview}\n\n🎭 Cast: ${topCast}\n⭐ Rating: ${movie_data.vote_average.toFixed(1)}/10\n🎬 ${genreNames.join(', ')}\n⏱️ ${lengthInfo}${streamingInfo}\n\nClick image for more info`,
+    poster_path: tmdbImageUrl(movie_data.poster_path),
+    title: movie_data.title,
+    tmdb_url: tmdbMovieUrl(movie_data.id, mediaType),
+    tmdb_id: movie_data.id,
+    media_type: mediaType,
+    streaming: streamingProviders,
+    availability,
+    genres: genreNames,
+    original_language: movie_data.original_language,
+    facts: constraintFacts(movie_data, region)
+  };
+}
@@ -0,0 +1,200 @@
+import { MediaType, MovieRef, formatMovie } from './recommendations';
+import { releaseYear, resolveMovie } from './tmdbClient';
+
+// Imports a user's history from other sites' CSV exports: Letterboxd's
+// ratings.csv / watched.csv and IMDb's ratings export. Every row counts as
+// watched; highly rated rows also become seeds. Rows are matched on TMDB by
+// title and year through resolveMovie, the same ranking the routes use.
+
+export type ImportSource = 'letterboxd-ratings' | 'letterboxd-watched' | 'imdb-ratings';
+
+export interface ImportedRow {
+  title: string;
+  year?: number;
+  mediaType?: MediaType;
+  // Out of 10 (Letterboxd's five stars are doubled)
+  rating?: number;
+  // Epoch ms of when it was rated or logged, when the export says
+  loggedAt?: number;
+}
+
+export interface RatingsImportResult {
+  source: ImportSource;
+  seeds: MovieRef[];
+  // Everything in the export, matched or not; unmatched rows are kept as titles
+  watched: MovieRef[];
+  // "Title (Year)" of rows TMDB had no match for
+  unmatched: string[];
+  // Rows past MAX_RESOLVED_ROWS, which were not looked up
+  skipped: number;
+}
+
+// Rated at least this (out of 10) to become a seed: four stars on Letterboxd
+const SEED_RATING = 8;
+const MAX_IMPORTED_SEEDS = 10;
+// Each row can take a few TMDB searches, and they all happen within one
+// request, so only this many are looked up; the rest are kept by title.
+const MAX_RESOLVED_ROWS = 60;
+const RESOLVE_BATCH = 5;
+
+// RFC 4180-style: quoted fields may hold commas, newlines and "" escapes.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+function toYear(value: string | undefined): number | undefined {
+  const year = Number(value);
+  return Number.isInteger(year) && year > 1800 ? year : undefined;
+}
+
+function toTimestamp(value: string | undefined): number | undefined {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isFinite(time) ? time : undefined;
+}
+
+// IMDb lists episodes, games and the like alongside films and series
+function imdbMediaType(titleType: string): MediaType | null {
+  const type = titleType.toLowerCase().replace(/\s+/g, '');
+  if (['tvseries', 'tvminiseries'].includes(type)) return 'tv';
+  if (['movie', 'tvmovie', 'tvspecial', 'video', 'short', 'tvshort', ''].includes(type)) return 'movie';
+  return null;
+}
+
+// Detects which export a CSV is from by its header; null when it's none of them.
+export function parseRatingsExport(text: string): { source: ImportSource; rows: ImportedRow[] } | null {
+  const [header, ...records] = parseCsv(text);
+  if (!header) return null;
+  const columns = header.map(name => name.trim().toLowerCase());
+  const cell = (record: string[], name: string) => {
+    const index = columns.indexOf(name);
+    return index >= 0 ? record[index]?.trim() : undefined;
+  };
+
+  if (columns.includes('letterboxd uri') && columns.includes('name')) {
+    const rated = columns.includes('rating');
+    return {
+      source: rated ? 'letterboxd-ratings' : 'letterboxd-watched',
+      rows: records.flatMap(record => {
+        const title = cell(record, 'name');
+        if (!title) return [];
+        const stars = Number(cell(record, 'rating'));
+        return [{
+          title,
+          year: toYear(cell(record, 'year')),
+          ...(rated && stars > 0 ? { rating: stars * 2 } : {}),
+          loggedAt: toTimestamp(cell(record, 'date')),
+        }];
+      }),
+    };
+  }
+
+  if (columns.includes('const') && columns.includes('your rating') && columns.includes('title')) {
+    return {
+      source: 'imdb-ratings',
+      rows: records.flatMap(record => {
+        const title = cell(record, 'title');
+        const mediaType = imdbMediaType(cell(record, 'title type') || '');
+        if (!title || !mediaType) return [];
+        const rating = Number(cell(record, 'your rating'));
+        return [{
+          title,
+          year: toYear(cell(record, 'year')),
+          ...(mediaType === 'tv' ? { mediaType } : {}),
+          ...(rating > 0 ? { rating } : {}),
+          loggedAt: toTimestamp(cell(record, 'date rated')),
+        }];
+      }),
+    };
+  }
+
+  return null;
+}
+
+// Null when TMDB has nothing, or only a title from a different year (the
+// ranking falls back to a year-less search, which can land on a remake).
+async function resolveRow(row: ImportedRow): Promise<MovieRef | null> {
+  const mediaType = row.mediaType || 'movie';
+  try {
+    const match = await resolveMovie({ title: row.title, year: row.year ? String(row.year) : '', director: '' }, mediaType);
+    const year = Number(releaseYear(match.release_date)) || undefined;
+    if (row.year && year && Math.abs(year - row.year) > 1) return null;
+    return {
+      title: match.title,
+      ...(year ? { year } : {}),
+      tmdbId: match.id,
+      ...(mediaType === 'tv' ? { mediaType } : {}),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Highly rated rows are looked up first, then the rest most recent first, up
+// to MAX_RESOLVED_ROWS. Seeds are the best-rated matches.
+export async function resolveImportedRows(source: ImportSource, rows: ImportedRow[]): Promise<RatingsImportResult> {
+  const ordered = [...rows].sort((a, b) =>
+    Number((b.rating || 0) >= SEED_RATING) - Number((a.rating || 0) >= SEED_RATING)
+    || (b.loggedAt || 0) - (a.loggedAt || 0)
+  );
+  const toResolve = ordered.slice(0, MAX_RESOLVED_ROWS);
+
+  const matches: (MovieRef | null)[] = [];
+  for (let i = 0; i < toResolve.length; i += RESOLVE_BATCH) {
+    matches.push(...await Promise.all(toResolve.slice(i, i + RESOLVE_BATCH).map(resolveRow)));
+  }
+
+  const asTyped = (row: ImportedRow): MovieRef => ({
+    title: row.title,
+    ...(row.year ? { year: row.year } : {}),
+    ...(row.mediaType ? { mediaType: row.mediaType } : {}),
+  });
+  const seeds = toResolve
+    .map((row, i) => ({ row, match: matches[i] }))
+    .filter(({ row, match }) => match && (row.rating || 0) >= SEED_RATING)
+    .sort((a, b) => (b.row.rating || 0) - (a.row.rating || 0))
+    .slice(0, MAX_IMPORTED_SEEDS)
+    .map(({ match }) => match as MovieRef);
+
+  return {
+    source,
+    seeds,
+    watched: [...toResolve.map((row, i) => matches[i] || asTyped(row)), ...ordered.slice(MAX_RESOLVED_ROWS).map(asTyped)],
+    unmatched: toResolve.filter((_, i) => !matches[i]).map(row => formatMovie(asTyped(row))),
+    skipped: Math.max(0, ordered.length - MAX_RESOLVED_ROWS),
+  };
+}
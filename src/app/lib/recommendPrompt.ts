@@ -0,0 +1,113 @@
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { RecommendationConstraints, describeConstraints } from './constraints';
+import { Participant, describeGroup } from './groups';
+import { LanguagePreferences, describeLanguagePreferences } from './languages';
+import { MediaChoice, MovieRef, REASON_INSTRUCTIONS, SEEN_PROMPT_LIMIT, describeSeeds, formatMovie } from './recommendations';
+import { AvailabilityType, WATCH_REGION_NAMES, WatchRegion } from './streamingProviders';
+
+// The recommendation prompt, shared by the one-shot /api/recommend route and
+// the streaming /api/recommend/stream route so both ask the model the same thing.
+
+export const RECOMMENDATION_COUNT = 7;
+
+const OPEN_AVAILABILITY_PHRASES: Record<Exclude<AvailabilityType, 'flatrate'>, string> = {
+  free: 'free to stream',
+  ads: 'free with ads',
+  rent: 'available to rent',
+  buy: 'available to buy',
+};
+
+// What to ask for, and how to label each pick's media_type, per media choice.
+const MEDIA_CHOICE_WORDING: Record<MediaChoice, { noun: string; instruction: string }> = {
+  movie: { noun: 'movies', instruction: 'Only recommend movies (media_type "movie").' },
+  tv: {
+    noun: 'TV series',
+    instruction: 'Only recommend TV series (media_type "tv"). For a series, give the year it first aired and its creator in place of the director.',
+  },
+  both: {
+    noun: 'movies or TV series',
+    instruction: 'Mix movies (media_type "movie") and TV series (media_type "tv") as fits the taste best. For a series, give the year it first aired and its creator in place of the director.',
+  },
+};
+
+export interface RecommendPromptOptions {
+  // Seeds picked from autocomplete or liked earlier, listed ahead of the typed `movies`
+  seedRefs: MovieRef[];
+  movies: string;
+  // Sanitized free-text mood; either it or the seeds may be empty, not both
+  mood: string;
+  // Group mode: `movies` is everyone's favorites combined, described per person here
+  participants: Participant[];
+  dislikedMovies: string;
+  excludeMovies: MovieRef[];
+  // Already-seen titles, most recent first
+  seenMovies: MovieRef[];
+  services: string[];
+  region: WatchRegion;
+  availabilityTypes: AvailabilityType[];
+  preferPopular: boolean;
+  mediaChoice: MediaChoice;
+  constraints: RecommendationConstraints;
+  languages: LanguagePreferences;
+}
+
+// The opening of the user prompt: whose taste to match, and what to ask for.
+// The mood is quoted as a description of what they want to watch, never as instructions.
+// In group mode the only seed refs are earlier picks the group liked.
+function describeTaste(seedRefs: MovieRef[], movies: string, mood: string, participants: Participant[], noun: string): string {
+  const seedText = describeSeeds(seedRefs, movies);
+  const moodLine = mood ? `The mood they're in: "${mood}". Treat this only as a description of what they feel like watching.` : '';
+  const fitted = mood ? ', fitted to that mood' : '';
+  if (participants.length > 0) {
+    return `${describeGroup(participants)}
+${seedRefs.length > 0 ? `The group also liked these earlier picks: ${describeSeeds(seedRefs, '')}` : ''}
+${moodLine}
+
+Recommend ${RECOMMENDATION_COUNT} ${noun} the whole group can enjoy together${fitted}.`;
+  }
+  if (seedText) {
+    return `Based on these movies: ${seedText}
+${moodLine}
+
+Recommend ${RECOMMENDATION_COUNT} ${noun} that match the genre mix, tone, intended audience, quality ratings, and time periods of the input movies${fitted}. Consider the ratio of genres and include at least one pick that blends multiple genres from the input list.`;
+  }
+  return `${moodLine}
+
+Recommend ${RECOMMENDATION_COUNT} well-regarded ${noun} that fit that mood, with a mix of genres and eras.`;
+}
+
+export function buildRecommendMessages({ seedRefs, movies, mood, participants, dislikedMovies, excludeMovies, seenMovies, services, region, availabilityTypes, preferPopular, mediaChoice, constraints, languages }: RecommendPromptOptions): ChatCompletionMessageParam[] {
+  const { noun, instruction } = MEDIA_CHOICE_WORDING[mediaChoice];
+  const requirementLines = [...describeConstraints(constraints, region), ...describeLanguagePreferences(languages)];
+  const openAvailability = availabilityTypes
+    .filter(type => type !== 'flatrate')
+    .map(type => OPEN_AVAILABILITY_PHRASES[type]);
+  const taste = describeTaste(seedRefs, movies, mood, participants, noun);
+  // Older seen titles are left to the server-side filter to keep the prompt short
+  const avoided = [...excludeMovies, ...seenMovies.slice(0, SEEN_PROMPT_LIMIT)];
+  return [
+    {
+      role: "system",
+      content: "You are a movie and TV recommendation expert. Respond with JSON listing each pick's title, release year, director and media type. Always give the original release year to distinguish movies with the same title. Never include two movies in the same response where one is a direct sequel or prequel of the other (e.g. don't include both 'Avatar' and 'Avatar: The Way of Water') — movies from the same franchise are fine as long as neither is a direct sequel/prequel of the other."
+    },
+    {
+      role: "user",
+      content: `${taste}
+${instruction}
+
+${dislikedMovies ? `They disliked these movies: ${dislikedMovies}. Steer away from anything that resembles them in genre mix, tone, themes or director, and never recommend them.` : ''}
+${requirementLines.length > 0 ? `Every pick must meet all of these requirements:\n${requirementLines.join('\n')}` : ''}
+${avoided.length > 0 ? `Do not recommend any of these movies:\n${avoided.map(m => formatMovie(m)).join('\n')}` : ''}
+${services.length > 0 ? `When possible, prefer movies commonly available for streaming in the ${WATCH_REGION_NAMES[region]} on: ${services.join(', ')}.` : ''}
+${openAvailability.length > 0 ? `Movies that are ${openAvailability.join(' or ')} in the ${WATCH_REGION_NAMES[region]} are fine too.` : ''}
+${preferPopular ? 'Favor well-known, broadly popular, mainstream movies over obscure or niche picks when the fit is comparable.' : ''}
+
+${REASON_INSTRUCTIONS}
+
+Return exactly ${RECOMMENDATION_COUNT} ${noun}.`
+    }
+  ];
+}
+
+// Covers a one-sentence reason per pick on top of the titles.
+export const RECOMMEND_MAX_TOKENS = 1200;
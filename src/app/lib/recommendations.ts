@@ -0,0 +1,314 @@
+import { isLikelySequelPair, normalizeMovieTitle } from './movieMatching';
+
+export type MediaType = 'movie' | 'tv';
+
+// What the user wants recommended: films, series, or a mix of both.
+export const MEDIA_CHOICES = ['movie', 'tv', 'both'] as const;
+export type MediaChoice = typeof MEDIA_CHOICES[number];
+
+export function toMediaChoice(value: unknown): MediaChoice {
+  return MEDIA_CHOICES.includes(value as MediaChoice) ? value as MediaChoice : 'movie';
+}
+
+export function mediaTypesFor(choice: MediaChoice): MediaType[] {
+  return choice === 'both' ? ['movie', 'tv'] : [choice];
+}
+
+export function matchesMediaChoice(movie: MovieRef, choice: MediaChoice): boolean {
+  return mediaTypesFor(choice).includes(movie.mediaType || 'movie');
+}
+
+export function formatSeasons(count: number | undefined): string {
+  if (!count) return 'Series';
+  return `${count} season${count === 1 ? '' : 's'}`;
+}
+
+// A movie (or series) the app refers to by title — a user's seed, an excluded
+// title, or a recommendation. `tmdbId` is filled in once the title has been
+// resolved on TMDB, and is the preferred identity whenever both sides have one.
+// TMDB numbers movies and series separately, so `mediaType` (absent for movies)
+// is part of that identity.
+export interface MovieRef {
+  title: string;
+  year?: number;
+  tmdbId?: number;
+  mediaType?: MediaType;
+}
+
+export const REASON_DIMENSIONS = ['genre', 'director', 'tone', 'era'] as const;
+export type ReasonDimension = typeof REASON_DIMENSIONS[number];
+
+// Why a pick was made: which of the user's input movies it relates to, along
+// which dimensions, and a one-sentence explanation shown on the card and modal.
+export interface RecommendationReason {
+  seeds: string[];
+  dimensions: ReasonDimension[];
+  text: string;
+}
+
+// For a series, `year` is the first-air year and `director` its creator.
+export interface Recommendation extends MovieRef {
+  year: number;
+  director: string;
+  reason?: RecommendationReason;
+}
+
+// Shared by the recommend and backfill structured-output schemas.
+export const REASON_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    seeds: { type: 'array', items: { type: 'string' } },
+    dimensions: { type: 'array', items: { type: 'string', enum: [...REASON_DIMENSIONS] } },
+    text: { type: 'string' },
+  },
+  required: ['seeds', 'dimensions', 'text'],
+  additionalProperties: false,
+};
+
+// Prompt wording that goes with REASON_JSON_SCHEMA.
+export const REASON_INSTRUCTIONS = `For each movie, include a reason: "seeds" lists the input movies (exactly as the user wrote them) it relates to, "dimensions" says how it relates (${REASON_DIMENSIONS.join(', ')}), and "text" is one short sentence, under 25 words, addressed to the user, explaining why they'll like it.`;
+
+// JSON schema for OpenAI structured output. Strict mode requires an object at
+// the top level and every property listed as required.
+export const RECOMMENDATIONS_RESPONSE_FORMAT = {
+  type: 'json_schema' as const,
+  json_schema: {
+    name: 'movie_recommendations',
+    strict: true,
+    schema: {
+      type: 'object',
+      properties: {
+        recommendations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              title: { type: 'string' },
+              year: { type: 'integer' },
+              director: { type: 'string' },
+              media_type: { type: 'string', enum: ['movie', 'tv'] },
+              reason: REASON_JSON_SCHEMA,
+            },
+            required: ['title', 'year', 'director', 'media_type', 'reason'],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ['recommendations'],
+      additionalProperties: false,
+    },
+  },
+};
+
+const EARLIEST_FILM_YEAR = 1870;
+
+function isValidYear(year: unknown): year is number {
+  return typeof year === 'number'
+    && Number.isInteger(year)
+    && year >= EARLIEST_FILM_YEAR
+    && year <= new Date().getFullYear() + 2;
+}
+
+const MAX_REASON_LENGTH = 240;
+// Titles and director names from client-saved records are cut to this
+export const MAX_TITLE_LENGTH = 200;
+const MAX_REASON_SEEDS = 5;
+
+// Validates a model-written reason. Seeds are kept only if they name one of the
+// user's actual input movies, so a hallucinated "because you liked X" never
+// reaches the UI (a mood-only run has none to name); a reason with no text is
+// dropped entirely. `seedTitles: null` keeps the cited seeds as given, for
+// reasons that were already grounded before a client round-trip.
+export function toRecommendationReason(value: unknown, seedTitles: string[] | null = []): RecommendationReason | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const { seeds, dimensions, text } = value as Record<string, unknown>;
+  if (typeof text !== 'string' || !text.trim()) return undefined;
+
+  const knownSeeds = seedTitles?.map(normalizeMovieTitle);
+  const validSeeds = (Array.isArray(seeds) ? seeds : [])
+    .filter((seed): seed is string => typeof seed === 'string' && seed.trim().length > 0)
+    .map(seed => seed.trim().slice(0, MAX_TITLE_LENGTH))
+    .filter(seed => !knownSeeds || knownSeeds.includes(normalizeMovieTitle(seed)));
+
+  return {
+    seeds: Array.from(new Set(validSeeds)).slice(0, MAX_REASON_SEEDS),
+    dimensions: (Array.isArray(dimensions) ? dimensions : [])
+      .filter((d): d is ReasonDimension => REASON_DIMENSIONS.includes(d as ReasonDimension))
+      .filter((d, i, all) => all.indexOf(d) === i),
+    text: text.trim().slice(0, MAX_REASON_LENGTH),
+  };
+}
+
+// Model output says `media_type`; client records carry `mediaType`.
+function isSeries(value: object): boolean {
+  const { media_type, mediaType } = value as Record<string, unknown>;
+  return media_type === 'tv' || mediaType === 'tv';
+}
+
+// Validates one untrusted record (from the model or a client request body),
+// returning null when it isn't a usable recommendation. Long titles and
+// director names are cut to MAX_TITLE_LENGTH.
+export function toRecommendation(value: unknown, seedTitles: string[] | null = []): Recommendation | null {
+  if (!value || typeof value !== 'object') return null;
+  const { title, year, director, tmdbId, reason } = value as Record<string, unknown>;
+  const validReason = toRecommendationReason(reason, seedTitles);
+  if (typeof title !== 'string' || !title.trim()) return null;
+  if (!isValidYear(year)) return null;
+  return {
+    title: title.trim().slice(0, MAX_TITLE_LENGTH),
+    year,
+    director: typeof director === 'string' ? director.trim().slice(0, MAX_TITLE_LENGTH) : '',
+    ...(typeof tmdbId === 'number' && Number.isInteger(tmdbId) ? { tmdbId } : {}),
+    ...(isSeries(value) ? { mediaType: 'tv' as const } : {}),
+    ...(validReason ? { reason: validReason } : {}),
+  };
+}
+
+// Parses the model's structured-output JSON. Malformed JSON or a missing array
+// is an error; individual malformed entries are dropped. `seedTitles` grounds
+// each reason in the user's actual input (see toRecommendationReason).
+export function parseRecommendationsResponse(content: string, seedTitles: string[] = []): Recommendation[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('Model returned malformed JSON');
+  }
+  const list = (parsed as { recommendations?: unknown } | null)?.recommendations;
+  if (!Array.isArray(list)) {
+    throw new Error('Model response is missing the "recommendations" array');
+  }
+  return list
+    .map(item => toRecommendation(item, seedTitles))
+    .filter((rec): rec is Recommendation => rec !== null);
+}
+
+// Validates a client-supplied list of movie references (exclusion lists, seeds).
+export function toMovieRefs(value: unknown): MovieRef[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(item => {
+    if (!item || typeof item !== 'object') return [];
+    const { title, year, tmdbId } = item as Record<string, unknown>;
+    if (typeof title !== 'string' || !title.trim()) return [];
+    return [{
+      title: title.trim(),
+      ...(isValidYear(year) ? { year } : {}),
+      ...(typeof tmdbId === 'number' && Number.isInteger(tmdbId) ? { tmdbId } : {}),
+      ...(isSeries(item) ? { mediaType: 'tv' as const } : {}),
+    }];
+  });
+}
+
+// The user's already-seen list. It's filtered against server-side, title by
+// title; only the most recently added SEEN_PROMPT_LIMIT are named in prompts.
+export const MAX_SEEN_MOVIES = 500;
+export const SEEN_PROMPT_LIMIT = 25;
+
+export function toSeenMovies(value: unknown): MovieRef[] {
+  return toMovieRefs(value).slice(0, MAX_SEEN_MOVIES);
+}
+
+// An autocomplete match from /api/search; picking one makes it a seed chip.
+export interface TitleSuggestion extends MovieRef {
+  tmdbId: number;
+  posterUrl: string | null;
+}
+
+// Seeds picked from autocomplete arrive as exact TMDB references next to the
+// free-text `movies` list; references without an id are dropped.
+export function toSeedRefs(value: unknown): MovieRef[] {
+  return toMovieRefs(value).filter(movie => movie.tmdbId !== undefined);
+}
+
+// Picked seeds and typed titles as one comma-separated list for the prompts.
+export function describeSeeds(seedRefs: MovieRef[], movies: string): string {
+  return [...seedRefs.map(seed => formatMovie(seed)), movies].filter(Boolean).join(', ');
+}
+
+// The titles a model-written reason may cite as seeds (see toRecommendationReason).
+export function seedTitlesOf(seedRefs: MovieRef[], movies: string): string[] {
+  return [...seedRefs, ...parseMovieList(movies)].map(movie => movie.title);
+}
+
+// Thumbs up/down on picks shown earlier in the session, from a request body.
+export interface Reactions {
+  liked: MovieRef[];
+  disliked: MovieRef[];
+}
+
+export function toReactions(value: unknown): Reactions {
+  const { liked, disliked } = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  return { liked: toMovieRefs(liked), disliked: toMovieRefs(disliked) };
+}
+
+// Folds reactions into the request's own inputs: liked picks become extra
+// seeds (exact refs once resolved on TMDB, "Title (Year)" in the typed list
+// otherwise) and disliked ones extra anti-seeds in the disliked list.
+export function withReactions(
+  inputs: { seedRefs: MovieRef[]; movies: string; dislikedMovies: string },
+  { liked, disliked }: Reactions
+): { seedRefs: MovieRef[]; movies: string; dislikedMovies: string } {
+  const titleList = (list: MovieRef[]) => list.map(movie => formatMovie({ title: movie.title, year: movie.year })).join(', ');
+  return {
+    seedRefs: [...inputs.seedRefs, ...liked.filter(movie => movie.tmdbId !== undefined)],
+    movies: [inputs.movies, titleList(liked.filter(movie => movie.tmdbId === undefined))].filter(Boolean).join(', '),
+    dislikedMovies: [inputs.dislikedMovies, titleList(disliked)].filter(Boolean).join(', '),
+  };
+}
+
+// "Title (Year) - Director" — the display/prompt form, and the key the page
+// uses for per-movie UI state.
+export function formatMovie(movie: MovieRef & { director?: string }): string {
+  const withYear = movie.year ? `${movie.title} (${movie.year})` : movie.title;
+  return movie.director ? `${withYear} - ${movie.director}` : withYear;
+}
+
+export function isSameMovie(a: MovieRef, b: MovieRef): boolean {
+  if (a.tmdbId && b.tmdbId) return a.tmdbId === b.tmdbId && (a.mediaType || 'movie') === (b.mediaType || 'movie');
+  if (normalizeMovieTitle(a.title) !== normalizeMovieTitle(b.title)) return false;
+  return !a.year || !b.year || a.year === b.year;
+}
+
+// True if `movie` is excluded outright, or is a direct sequel/prequel of
+// something excluded. `seen` titles only rule out themselves: having watched
+// a film is no reason to skip its sequel.
+export function isExcludedMovie(movie: MovieRef, excluded: MovieRef[], seen: MovieRef[] = []): boolean {
+  return excluded.some(ex => isSameMovie(ex, movie) || isLikelySequelPair(ex.title, movie.title))
+    || seen.some(s => isSameMovie(s, movie));
+}
+
+// An optional comma-separated title list from a request body (e.g. the
+// disliked-movies field), or '' when absent or not a string.
+export function toMovieListText(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+export const MOOD_MAX_LENGTH = 200;
+
+// The free-text mood ("cozy rainy Sunday, nothing too sad") from a request
+// body, made safe to quote in a prompt: control characters, quotes and
+// markup-ish brackets are dropped, whitespace collapses to single spaces, and
+// it's cut to MOOD_MAX_LENGTH. '' when absent or not a string.
+export function toMood(value: unknown): string {
+  if (typeof value !== 'string') return '';
+  return value
+    .replace(/[\u0000-\u001f\u007f]/g, ' ')
+    .replace(/[`"{}<>[\]\\]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MOOD_MAX_LENGTH)
+    .trim();
+}
+
+// Splits the comma-separated favorites textarea into movie references, picking
+// up a "(Year)" suffix when the user typed one.
+export function parseMovieList(text: string): MovieRef[] {
+  return text
+    .split(',')
+    .map(movie => movie.trim())
+    .filter(movie => movie.length > 0)
+    .map(movie => {
+      const match = movie.match(/^(.+?)\s*\((\d{4})\)/);
+      return match ? { title: match[1].trim(), year: Number(match[2]) } : { title: movie };
+    });
+}
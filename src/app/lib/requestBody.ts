@@ -0,0 +1,25 @@
+// Size-limited reading of request bodies, for routes that accept uploads or
+// client-saved state and shouldn't buffer whatever they're sent.
+
+// The body as text, or null once it passes `maxBytes`: the declared length is
+// checked first, then the stream is counted as it's read, since a chunked
+// upload doesn't declare one.
+export async function readLimitedText(request: Request, maxBytes: number): Promise<string | null> {
+  if (Number(request.headers.get('content-length')) > maxBytes) return null;
+  if (!request.body) return '';
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
@@ -0,0 +1,57 @@
+import { randomBytes } from 'crypto';
+import { JsonFileStore, createJsonFileStore } from './fileStore';
+import { SharedRun } from './shares';
+
+// Server-side store for shared recommendation runs, keyed by a short random
+// id that goes in the /share/<id> link. Links get pasted into chats and read
+// days later, so runs are only ever kept on disk: without a directory there's
+// no sharing at all rather than links that die with the process.
+//
+// Configured from the environment:
+//   SHARE_STORE_DIR      directory shared runs are kept in; sharing is off when unset
+//   SHARE_TTL_DAYS       how long a shared link keeps working (default 90)
+
+export interface ShareStore {
+  // Returns the new run's id
+  save(run: SharedRun): Promise<string>;
+  load(id: string): Promise<SharedRun | null>;
+}
+
+interface StoredRun {
+  run: SharedRun;
+  expiresAt: number;
+}
+
+const DEFAULT_TTL_DAYS = 90;
+
+function positiveNumberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function createShareStore(files: JsonFileStore, ttlMs: number): ShareStore {
+  return {
+    async save(run) {
+      const id = randomBytes(6).toString('base64url');
+      await files.write<StoredRun>(`share:${id}`, { run, expiresAt: Date.now() + ttlMs });
+      return id;
+    },
+    async load(id) {
+      const stored = await files.read<StoredRun>(`share:${id}`);
+      return stored && stored.expiresAt > Date.now() ? stored.run : null;
+    },
+  };
+}
+
+let sharedStore: ShareStore | null = null;
+
+// Null when no store directory is configured.
+export function getShareStore(): ShareStore | null {
+  const dir = process.env.SHARE_STORE_DIR;
+  if (!dir) return null;
+  if (!sharedStore) {
+    const ttlMs = positiveNumberFromEnv('SHARE_TTL_DAYS', DEFAULT_TTL_DAYS) * 24 * 60 * 60 * 1000;
+    sharedStore = createShareStore(createJsonFileStore(dir), ttlMs);
+  }
+  return sharedStore;
+}
@@ -0,0 +1,85 @@
+import { RecommendationConstraints, toConstraints } from './constraints';
+import { LanguagePreferences, toLanguagePreferences } from './languages';
+import { MediaChoice, Recommendation, toMediaChoice, toMood, toRecommendation } from './recommendations';
+import {
+  AvailabilityType,
+  ProviderAvailability,
+  WatchRegion,
+  toAvailabilityTypes,
+  toProviderAvailability,
+  toWatchRegion,
+} from './streamingProviders';
+
+// A recommendation run saved for sharing: what it was based on, the filters it
+// ran with, and the final list as shown (after streaming-filter replacements),
+// with enough of each card to render it again without calling TMDB.
+export interface SharedPick extends Recommendation {
+  posterUrl: string | null;
+  availability: ProviderAvailability[];
+}
+
+export interface SharedRun {
+  // Seeds as displayed, "Title (Year)"
+  seeds: string[];
+  mood: string;
+  mediaChoice: MediaChoice;
+  region: WatchRegion;
+  services: string[];
+  availabilityTypes: AvailabilityType[];
+  constraints: RecommendationConstraints;
+  languages: LanguagePreferences;
+  picks: SharedPick[];
+  // Epoch ms
+  createdAt: number;
+}
+
+const MAX_SHARED_PICKS = 30;
+const MAX_SHARED_SEEDS = 40;
+const MAX_SEED_LENGTH = 200;
+
+// Only TMDB's image host is allowed, since shared posters end up in link previews.
+const POSTER_URL_PREFIX = 'https://image.tmdb.org/t/p/';
+
+export function isShareId(value: unknown): value is string {
+  return typeof value === 'string' && /^[A-Za-z0-9_-]{8,16}$/.test(value);
+}
+
+function toStringList(value: unknown, maxItems: number, maxLength: number): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    .map(item => item.trim().slice(0, maxLength))
+    .slice(0, maxItems);
+}
+
+// Validates a run posted by the client; null when it has no usable picks.
+export function toSharedRun(value: unknown): SharedRun | null {
+  if (!value || typeof value !== 'object') return null;
+  const { seeds, mood, mediaChoice, region, services, availabilityTypes, constraints, languages, picks } = value as Record<string, unknown>;
+  const watchRegion = toWatchRegion(region);
+  const sharedPicks = (Array.isArray(picks) ? picks : []).flatMap(pick => {
+    // Reasons were grounded when the run was recommended
+    const recommendation = toRecommendation(pick, null);
+    if (!recommendation) return [];
+    const { posterUrl, availability } = pick as Record<string, unknown>;
+    return [{
+      ...recommendation,
+      posterUrl: typeof posterUrl === 'string' && posterUrl.startsWith(POSTER_URL_PREFIX) ? posterUrl : null,
+      availability: toProviderAvailability(availability),
+    }];
+  }).slice(0, MAX_SHARED_PICKS);
+  if (sharedPicks.length === 0) return null;
+
+  return {
+    seeds: toStringList(seeds, MAX_SHARED_SEEDS, MAX_SEED_LENGTH),
+    mood: toMood(mood),
+    mediaChoice: toMediaChoice(mediaChoice),
+    region: watchRegion,
+    services: toStringList(services, MAX_SHARED_SEEDS, MAX_SEED_LENGTH),
+    availabilityTypes: toAvailabilityTypes(availabilityTypes),
+    constraints: toConstraints(constraints, watchRegion),
+    languages: toLanguagePreferences(languages),
+    picks: sharedPicks,
+    createdAt: Date.now(),
+  };
+}
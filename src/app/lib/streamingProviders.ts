@@ -2,6 +2,8 @@
 // `matchKeys` are matched as case-insensitive substrings against TMDB's
 // provider_name values, since TMDB returns many bundle/channel variants
 // (e.g. "Paramount+ Amazon Channel") rather than one clean name per service.
+// `exactNames` are compared against the whole provider_name instead, for
+// services whose name is too short to match as a substring (NOW).
 // Disney+ and Hulu are combined into one entry since Disney merged Hulu's
 // content into the Disney+ app — TMDB's underlying data (sourced from
 // JustWatch) sometimes still tags a title "Hulu" only, so treating either
@@ -10,32 +12,190 @@ export interface StreamingProvider {
   name: string;
   tmdbIds: number[];
   matchKeys: string[];
+  exactNames?: string[];
 }
 
-export const STREAMING_PROVIDERS: StreamingProvider[] = [
-  { name: 'Netflix', tmdbIds: [8], matchKeys: ['netflix'] },
-  { name: 'Prime Video', tmdbIds: [9], matchKeys: ['prime video'] },
-  { name: 'Disney+ / Hulu', tmdbIds: [337, 15], matchKeys: ['disney', 'hulu'] },
-  { name: 'Max', tmdbIds: [1899], matchKeys: ['max'] },
-  { name: 'Apple TV+', tmdbIds: [350], matchKeys: ['apple tv'] },
-  { name: 'Paramount+', tmdbIds: [531], matchKeys: ['paramount'] },
-  { name: 'Peacock', tmdbIds: [387], matchKeys: ['peacock'] },
-];
+// TMDB/JustWatch availability is per country, so the filter works against one
+// watch region at a time. Each region lists only the services that exist there.
+export const WATCH_REGIONS = ['US', 'GB', 'CA'] as const;
+export type WatchRegion = typeof WATCH_REGIONS[number];
+export const DEFAULT_WATCH_REGION: WatchRegion = 'US';
+
+export const WATCH_REGION_NAMES: Record<WatchRegion, string> = {
+  US: 'United States',
+  GB: 'United Kingdom',
+  CA: 'Canada',
+};
+
+export function toWatchRegion(value: unknown): WatchRegion {
+  return WATCH_REGIONS.includes(value as WatchRegion) ? value as WatchRegion : DEFAULT_WATCH_REGION;
+}
+
+export const STREAMING_PROVIDERS_BY_REGION: Record<WatchRegion, StreamingProvider[]> = {
+  US: [
+    { name: 'Netflix', tmdbIds: [8], matchKeys: ['netflix'] },
+    { name: 'Prime Video', tmdbIds: [9], matchKeys: ['prime video'] },
+    { name: 'Disney+ / Hulu', tmdbIds: [337, 15], matchKeys: ['disney', 'hulu'] },
+    { name: 'Max', tmdbIds: [1899], matchKeys: ['max'] },
+    { name: 'Apple TV+', tmdbIds: [350], matchKeys: ['apple tv'] },
+    { name: 'Paramount+', tmdbIds: [531], matchKeys: ['paramount'] },
+    { name: 'Peacock', tmdbIds: [387], matchKeys: ['peacock'] },
+  ],
+  // Max and Peacock content in the UK is largely carried by Sky's NOW service.
+  GB: [
+    { name: 'Netflix', tmdbIds: [8], matchKeys: ['netflix'] },
+    { name: 'Prime Video', tmdbIds: [9], matchKeys: ['prime video'] },
+    { name: 'Disney+', tmdbIds: [337], matchKeys: ['disney'] },
+    { name: 'Apple TV+', tmdbIds: [350], matchKeys: ['apple tv'] },
+    { name: 'Paramount+', tmdbIds: [531], matchKeys: ['paramount'] },
+    { name: 'NOW', tmdbIds: [39], matchKeys: [], exactNames: ['now', 'now tv', 'now tv cinema'] },
+    { name: 'BBC iPlayer', tmdbIds: [38], matchKeys: ['bbc iplayer'] },
+    { name: 'ITVX', tmdbIds: [41], matchKeys: ['itv'] },
+    { name: 'Channel 4', tmdbIds: [103], matchKeys: ['channel 4', 'all 4'] },
+  ],
+  // Crave carries HBO/Max originals in Canada.
+  CA: [
+    { name: 'Netflix', tmdbIds: [8], matchKeys: ['netflix'] },
+    { name: 'Prime Video', tmdbIds: [9, 119], matchKeys: ['prime video'] },
+    { name: 'Disney+', tmdbIds: [337], matchKeys: ['disney'] },
+    { name: 'Crave', tmdbIds: [230], matchKeys: ['crave'] },
+    { name: 'Apple TV+', tmdbIds: [350], matchKeys: ['apple tv'] },
+    { name: 'Paramount+', tmdbIds: [531], matchKeys: ['paramount'] },
+  ],
+};
+
+export function streamingProvidersFor(region: WatchRegion): StreamingProvider[] {
+  return STREAMING_PROVIDERS_BY_REGION[region];
+}
+
+// The selected services from a request: names of the region's known services,
+// each once, in catalog order. Anything else isn't something the filter could
+// match, so it's dropped.
+export function toServiceNames(value: unknown, region: WatchRegion): string[] {
+  if (!Array.isArray(value)) return [];
+  return streamingProvidersFor(region).map(provider => provider.name).filter(name => value.includes(name));
+}
 
 // Which of the user's selected services (by friendly name) a movie's raw TMDB
 // provider names actually match. Used to show a per-card "available on X" badge.
-export function matchedServiceNames(providerNames: string[] | undefined, selectedServiceNames: string[]): string[] {
+export function matchedServiceNames(
+  providerNames: string[] | undefined,
+  selectedServiceNames: string[],
+  region: WatchRegion
+): string[] {
   if (!providerNames || providerNames.length === 0) return [];
-  return STREAMING_PROVIDERS
+  return streamingProvidersFor(region)
     .filter(p => selectedServiceNames.includes(p.name))
-    .filter(p => providerNames.some(pn => p.matchKeys.some(key => pn.toLowerCase().includes(key))))
+    .filter(p => providerNames.some(pn => matchesProviderName(p, pn)))
     .map(p => p.name);
 }
 
-export function movieMatchesServices(providerNames: string[] | undefined, selectedServiceNames: string[]): boolean {
-  if (!providerNames || providerNames.length === 0) return false;
-  if (selectedServiceNames.length === 0) return true;
-  return matchedServiceNames(providerNames, selectedServiceNames).length > 0;
+function matchesProviderName(provider: StreamingProvider, providerName: string): boolean {
+  const name = providerName.toLowerCase();
+  return provider.matchKeys.some(key => name.includes(key)) || (provider.exactNames || []).includes(name.trim());
+}
+
+// How a movie can be watched on a provider, using TMDB's watch/providers
+// (and discover `with_watch_monetization_types`) names.
+export const AVAILABILITY_TYPES = ['flatrate', 'free', 'ads', 'rent', 'buy'] as const;
+export type AvailabilityType = typeof AVAILABILITY_TYPES[number];
+export const DEFAULT_AVAILABILITY_TYPES: AvailabilityType[] = ['flatrate'];
+
+export const AVAILABILITY_TYPE_LABELS: Record<AvailabilityType, string> = {
+  flatrate: 'Subscription',
+  free: 'Free',
+  ads: 'Free with ads',
+  rent: 'Rent',
+  buy: 'Buy',
+};
+
+export function toAvailabilityTypes(value: unknown): AvailabilityType[] {
+  if (!Array.isArray(value)) return DEFAULT_AVAILABILITY_TYPES;
+  const types = AVAILABILITY_TYPES.filter(type => value.includes(type));
+  return types.length > 0 ? types : DEFAULT_AVAILABILITY_TYPES;
+}
+
+export interface ProviderAvailability {
+  name: string;
+  type: AvailabilityType;
+}
+
+const MAX_SAVED_PROVIDERS = 60;
+const MAX_PROVIDER_NAME_LENGTH = 100;
+
+// Validates availability saved by the client (a watchlist, a shared list).
+export function toProviderAvailability(value: unknown): ProviderAvailability[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(entry => {
+    const { name, type } = (entry || {}) as Record<string, unknown>;
+    if (typeof name !== 'string' || !AVAILABILITY_TYPES.includes(type as AvailabilityType)) return [];
+    return [{ name: name.slice(0, MAX_PROVIDER_NAME_LENGTH), type: type as AvailabilityType }];
+  }).slice(0, MAX_SAVED_PROVIDERS);
+}
+
+function isSubscriptionOnly(types: AvailabilityType[]): boolean {
+  return types.length === 1 && types[0] === 'flatrate';
+}
+
+// The filter is off only in its default state: no services picked and only
+// subscriptions counted, where any subscription availability is enough.
+export function isAvailabilityFilterActive(selectedServiceNames: string[], types: AvailabilityType[]): boolean {
+  return selectedServiceNames.length > 0 || !isSubscriptionOnly(types);
+}
+
+// Subscriptions only count on the user's selected services (any service when
+// none are picked). Free, ad-supported, rental and purchase options are open
+// to anyone, so those count on whichever provider offers them.
+export function movieMatchesServices(
+  availability: ProviderAvailability[] | undefined,
+  selectedServiceNames: string[],
+  region: WatchRegion,
+  types: AvailabilityType[]
+): boolean {
+  if (!availability || availability.length === 0) return false;
+  const subscriptions = availability.filter(a => a.type === 'flatrate').map(a => a.name);
+  if (types.includes('flatrate') && subscriptions.length > 0) {
+    if (selectedServiceNames.length === 0) return true;
+    if (matchedServiceNames(subscriptions, selectedServiceNames, region).length > 0) return true;
+  }
+  return availability.some(a => a.type !== 'flatrate' && types.includes(a.type));
+}
+
+// TMDB watch-provider ids for the selected services, '|'-joined (OR) for
+// discover's `with_watch_providers`.
+export function watchProviderIds(selectedServiceNames: string[], region: WatchRegion): string {
+  return streamingProvidersFor(region)
+    .filter(p => selectedServiceNames.includes(p.name))
+    .flatMap(p => p.tmdbIds)
+    .join('|');
+}
+
+export type DiscoverAvailabilityParams = Record<'with_watch_providers' | 'with_watch_monetization_types' | 'watch_region', string | undefined>;
+
+// Discover params matching movieMatchesServices. Discover ANDs its provider and
+// monetization filters, so "subscription on my services, or rentable anywhere"
+// needs two queries: one for the selected services' subscriptions and one for
+// the other chosen types on any provider. Returns one unfiltered set when the
+// filter is inactive.
+export function discoverAvailabilityParams(
+  selectedServiceNames: string[],
+  region: WatchRegion,
+  types: AvailabilityType[]
+): DiscoverAvailabilityParams[] {
+  if (!isAvailabilityFilterActive(selectedServiceNames, types)) {
+    return [{ with_watch_providers: undefined, with_watch_monetization_types: undefined, watch_region: undefined }];
+  }
+
+  const sets: DiscoverAvailabilityParams[] = [];
+  const providerIds = watchProviderIds(selectedServiceNames, region);
+  if (types.includes('flatrate')) {
+    sets.push({ with_watch_providers: providerIds || undefined, with_watch_monetization_types: 'flatrate', watch_region: region });
+  }
+  const openTypes = types.filter(type => type !== 'flatrate');
+  if (openTypes.length > 0) {
+    sets.push({ with_watch_providers: undefined, with_watch_monetization_types: openTypes.join('|'), watch_region: region });
+  }
+  return sets;
 }
 
 export const TMDB_GENRE_IDS: Record<string, number> = {
@@ -59,3 +219,34 @@ export const TMDB_GENRE_IDS: Record<string, number> = {
   War: 10752,
   Western: 37,
 };
+
+// TMDB's TV genres mostly share the movie ids, except for a few combined ones.
+// TV results are mapped onto movie genre ids when they're fetched, so scoring
+// and genre hints only ever deal in one id space.
+const TV_GENRE_EQUIVALENTS: Record<number, number[]> = {
+  10759: [TMDB_GENRE_IDS.Action, TMDB_GENRE_IDS.Adventure],
+  10765: [TMDB_GENRE_IDS['Science Fiction'], TMDB_GENRE_IDS.Fantasy],
+  10768: [TMDB_GENRE_IDS.War],
+};
+
+// Movie genres with no TV counterpart (Thriller, Horror, Romance...) are dropped.
+const MOVIE_ONLY_GENRE_IDS = [
+  TMDB_GENRE_IDS.History,
+  TMDB_GENRE_IDS.Horror,
+  TMDB_GENRE_IDS.Music,
+  TMDB_GENRE_IDS.Romance,
+  TMDB_GENRE_IDS['TV Movie'],
+  TMDB_GENRE_IDS.Thriller,
+];
+
+export function movieGenreIdsForTv(tvGenreIds: number[]): number[] {
+  return Array.from(new Set(tvGenreIds.flatMap(id => TV_GENRE_EQUIVALENTS[id] || [id])));
+}
+
+export function tvGenreIdsForMovie(movieGenreIds: number[]): number[] {
+  return Array.from(new Set(movieGenreIds.flatMap(id => {
+    const combined = Object.entries(TV_GENRE_EQUIVALENTS).find(([, ids]) => ids.includes(id));
+    if (combined) return [Number(combined[0])];
+    return MOVIE_ONLY_GENRE_IDS.includes(id) ? [] : [id];
+  })));
+}
@@ -0,0 +1,169 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+
+// Server-side cache for TMDB lookups. Title queries map to their resolved TMDB
+// movie, and movie ids map to detail/provider payloads, so popular titles are
+// only resolved once across all users instead of on every card render.
+//
+// Configured from the environment:
+//   TMDB_CACHE_TTL_SECONDS  how long an entry stays fresh (default 6 hours)
+//   TMDB_CACHE_MAX_ENTRIES  size limit per backend, oldest evicted first (default 500)
+//   TMDB_CACHE_DIR          when set, entries are also written to this directory
+//                           so a cold start can pick up where the last one left off
+
+export interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+export interface CacheBackend {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface TtlCache {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+  getOrLoad<T>(key: string, load: () => Promise<T>): Promise<T>;
+}
+
+// Map iteration order is insertion order, so re-inserting on read keeps the
+// least recently used entry at the front for eviction.
+export function createMemoryCacheBackend(maxEntries: number): CacheBackend {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+// One JSON file per entry, named by a hash of the key. Eviction drops the
+// least recently written files once the directory exceeds the size limit.
+// Disk errors are swallowed: the cache is an optimization, never a failure path.
+export function createFileCacheBackend(dir: string, maxEntries: number): CacheBackend {
+  const fileFor = (key: string) =>
+    path.join(dir, `${createHash('sha1').update(key).digest('hex')}.json`);
+
+  const evict = async () => {
+    const files = (await fs.readdir(dir)).filter(f => f.endsWith('.json'));
+    if (files.length <= maxEntries) return;
+
+    const stats = await Promise.all(
+      files.map(async f => ({ file: f, mtime: (await fs.stat(path.join(dir, f))).mtimeMs }))
+    );
+    stats.sort((a, b) => a.mtime - b.mtime);
+    await Promise.all(
+      stats.slice(0, files.length - maxEntries).map(({ file }) => fs.rm(path.join(dir, file), { force: true }))
+    );
+  };
+
+  return {
+    async get(key) {
+      try {
+        return JSON.parse(await fs.readFile(fileFor(key), 'utf8')) as CacheEntry;
+      } catch {
+        return undefined;
+      }
+    },
+    async set(key, entry) {
+      try {
+        await fs.mkdir(dir, { recursive: true });
+        await fs.writeFile(fileFor(key), JSON.stringify(entry));
+        await evict();
+      } catch (error) {
+        console.error('TMDB cache write failed:', error);
+      }
+    },
+    async delete(key) {
+      await fs.rm(fileFor(key), { force: true }).catch(() => undefined);
+    },
+  };
+}
+
+// Read-through cache over an ordered list of backends (fastest first). A hit in
+// a slower backend is copied into the faster ones; concurrent loads of the same
+// key share a single in-flight request.
+export function createTtlCache(backends: CacheBackend[], ttlMs: number): TtlCache {
+  const inflight = new Map<string, Promise<unknown>>();
+
+  const cache: TtlCache = {
+    async get<T>(key: string) {
+      for (let i = 0; i < backends.length; i++) {
+        const entry = await backends[i].get(key);
+        if (!entry) continue;
+        if (entry.expiresAt <= Date.now()) {
+          await backends[i].delete(key);
+          continue;
+        }
+        await Promise.all(backends.slice(0, i).map(b => b.set(key, entry)));
+        return entry.value as T;
+      }
+      return undefined;
+    },
+    async set<T>(key: string, value: T) {
+      const entry = { value, expiresAt: Date.now() + ttlMs };
+      await Promise.all(backends.map(b => b.set(key, entry)));
+    },
+    async getOrLoad<T>(key: string, load: () => Promise<T>) {
+      const cached = await cache.get<T>(key);
+      if (cached !== undefined) return cached;
+
+      const pending = inflight.get(key) as Promise<T> | undefined;
+      if (pending) return pending;
+
+      const loading = load()
+        .then(async value => {
+          await cache.set(key, value);
+          return value;
+        })
+        .finally(() => inflight.delete(key));
+      inflight.set(key, loading);
+      return loading;
+    },
+  };
+  return cache;
+}
+
+const DEFAULT_TTL_SECONDS = 6 * 60 * 60;
+const DEFAULT_MAX_ENTRIES = 500;
+
+function positiveNumberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+let sharedCache: TtlCache | null = null;
+
+export function getTmdbCache(): TtlCache {
+  if (!sharedCache) {
+    const ttlMs = positiveNumberFromEnv('TMDB_CACHE_TTL_SECONDS', DEFAULT_TTL_SECONDS) * 1000;
+    const maxEntries = positiveNumberFromEnv('TMDB_CACHE_MAX_ENTRIES', DEFAULT_MAX_ENTRIES);
+    const backends: CacheBackend[] = [createMemoryCacheBackend(maxEntries)];
+    if (process.env.TMDB_CACHE_DIR) {
+      backends.push(createFileCacheBackend(process.env.TMDB_CACHE_DIR, maxEntries));
+    }
+    sharedCache = createTtlCache(backends, ttlMs);
+  }
+  return sharedCache;
+}
@@ -0,0 +1,476 @@
+import axios from 'axios';
+import { rankTmdbCandidates, TmdbSearchCandidate } from './movieMatching';
+import { ConstraintFacts } from './constraints';
+import { MediaType } from './recommendations';
+import { AVAILABILITY_TYPES, ProviderAvailability, WatchRegion, movieGenreIdsForTv } from './streamingProviders';
+import { getTmdbCache } from './tmdbCache';
+
+// Shared TMDB access for every API route: parsing our "Title (Year) - Director"
+// strings, the search fallback chain, detail/provider/credit lookups and the
+// mapping of TMDB failures onto route error responses all live here so a fix
+// to title resolution only has to land once.
+//
+// Series go through the same functions with mediaType 'tv'. TMDB's TV payloads
+// name things differently (name / first_air_date / episode_run_time), so they're
+// mapped onto the movie shapes here and tagged with `media_type: 'tv'`; callers
+// only need to carry the media type along with the id.
+
+const TMDB_BASE_URL = 'https://api.themoviedb.org/3';
+const TMDB_IMAGE_BASE_URL = 'https://image.tmdb.org/t/p';
+
+export interface MovieQuery {
+  title: string;
+  year: string;
+  director: string;
+}
+
+export interface TmdbMovieResult extends TmdbSearchCandidate {
+  genre_ids?: number[];
+  poster_path?: string | null;
+  overview?: string;
+  vote_average?: number;
+  original_language?: string;
+  media_type?: MediaType;
+}
+
+interface TmdbTvResult extends Omit<TmdbMovieResult, 'title' | 'release_date'> {
+  name: string;
+  first_air_date: string;
+}
+
+function fromTvResult(show: TmdbTvResult): TmdbMovieResult {
+  return {
+    ...show,
+    title: show.name,
+    release_date: show.first_air_date,
+    genre_ids: movieGenreIdsForTv(show.genre_ids || []),
+    media_type: 'tv',
+  };
+}
+
+export function mediaTypeOf(result: { media_type?: MediaType }): MediaType {
+  return result.media_type === 'tv' ? 'tv' : 'movie';
+}
+
+export interface TmdbCrewMember {
+  name: string;
+  job: string;
+}
+
+export interface TmdbCredits {
+  cast: { name: string }[];
+  crew: TmdbCrewMember[];
+}
+
+export interface TmdbWatchProvider {
+  provider_id: number;
+  provider_name: string;
+}
+
+export interface TmdbWatchProviderRegion {
+  flatrate?: TmdbWatchProvider[];
+  free?: TmdbWatchProvider[];
+  ads?: TmdbWatchProvider[];
+  rent?: TmdbWatchProvider[];
+  buy?: TmdbWatchProvider[];
+}
+
+export interface TmdbWatchProviders {
+  results?: Record<string, TmdbWatchProviderRegion>;
+}
+
+export interface TmdbVideo {
+  key: string;
+  site: string;
+  type: string;
+}
+
+export interface TmdbMovieDetails {
+  id: number;
+  title: string;
+  overview: string;
+  poster_path: string | null;
+  backdrop_path: string | null;
+  release_date: string;
+  runtime: number;
+  vote_average: number;
+  original_language: string;
+  genres: { id: number; name: string }[];
+  credits?: TmdbCredits;
+  videos?: { results: TmdbVideo[] };
+  'watch/providers'?: TmdbWatchProviders;
+  release_dates?: { results: { iso_3166_1: string; release_dates: { certification: string }[] }[] };
+  content_ratings?: { results: { iso_3166_1: string; rating: string }[] };
+  // Series only; `runtime` holds the typical episode runtime for them
+  media_type?: MediaType;
+  number_of_seasons?: number;
+  created_by?: { name: string }[];
+}
+
+interface TmdbTvDetails extends Omit<TmdbMovieDetails, 'title' | 'release_date' | 'runtime'> {
+  name: string;
+  first_air_date: string;
+  episode_run_time?: number[];
+}
+
+function fromTvDetails(show: TmdbTvDetails): TmdbMovieDetails {
+  return {
+    ...show,
+    title: show.name,
+    release_date: show.first_air_date,
+    runtime: show.episode_run_time?.[0] || 0,
+    media_type: 'tv',
+  };
+}
+
+// 'release_dates' (certifications) is fetched as 'content_ratings' for a series.
+export type TmdbAppend = 'credits' | 'videos' | 'watch/providers' | 'release_dates';
+
+interface TMDBError {
+  message: string;
+  type?: string;
+  response?: {
+    data?: unknown;
+    status?: number;
+  };
+}
+
+export function isTmdbConfigured(): boolean {
+  return Boolean(process.env.TMDB_API_KEY);
+}
+
+function tmdbRequestConfig(params?: Record<string, string | number | undefined>) {
+  return {
+    headers: {
+      Authorization: `Bearer ${process.env.TMDB_API_KEY}`,
+      accept: 'application/json',
+    },
+    params,
+  };
+}
+
+async function tmdbGet<T>(path: string, params?: Record<string, string | number | undefined>): Promise<T> {
+  const response = await axios.get<T>(`${TMDB_BASE_URL}${path}`, tmdbRequestConfig(params));
+  return response.data;
+}
+
+export function tmdbImageUrl(path: string | null | undefined, size: 'w500' | 'w1280' = 'w500'): string | null {
+  return path ? `${TMDB_IMAGE_BASE_URL}/${size}${path}` : null;
+}
+
+export function tmdbMovieUrl(id: number, mediaType: MediaType = 'movie'): string {
+  return `https://www.themoviedb.org/${mediaType}/${id}`;
+}
+
+// Cache keys for per-title payloads; movie keys keep their original unprefixed form.
+function mediaKey(id: number, mediaType: MediaType): string {
+  return mediaType === 'tv' ? `tv:${id}` : String(id);
+}
+
+export function releaseYear(releaseDate: string | undefined): string {
+  return releaseDate ? new Date(releaseDate).getFullYear().toString() : '';
+}
+
+// Splits our "Title (Year) - Director" format into its parts. Strings without a
+// year are treated as "Title - Director" (or just a bare title).
+export function extractMovieInfo(movieString: string): MovieQuery {
+  const normalizedString = movieString
+    .replace(/\s+/g, ' ')
+    .replace(/[""]/g, '"')
+    .trim();
+
+  const match = normalizedString.match(/(.+?)\s*\((\d{4})\)(?:\s*-\s*(.+))?/i);
+  if (match) {
+    return {
+      title: match[1].trim(),
+      year: match[2],
+      director: match[3]?.trim() || ''
+    };
+  }
+
+  const parts = normalizedString.split('-');
+  return {
+    title: parts[0].trim(),
+    year: '',
+    director: parts[1]?.trim() || ''
+  };
+}
+
+// Loosens a title for a second search attempt when the exact one finds nothing.
+export function cleanMovieTitle(title: string): string {
+  return title
+    // Remove common prefixes like "The", "A", "An" from the start
+    .replace(/^(the|a|an)\s+/i, '')
+    // Remove special characters but keep apostrophes for names
+    .replace(/[^\w\s'-]/g, ' ')
+    // Replace multiple spaces with single space
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export async function searchMovies(query: string, year?: string): Promise<TmdbMovieResult[]> {
+  const data = await tmdbGet<{ results?: TmdbMovieResult[] }>('/search/movie', {
+    query,
+    year: year || undefined,
+  });
+  return data.results || [];
+}
+
+export async function searchTvShows(query: string, year?: string): Promise<TmdbMovieResult[]> {
+  const data = await tmdbGet<{ results?: TmdbTvResult[] }>('/search/tv', {
+    query,
+    first_air_date_year: year || undefined,
+  });
+  return (data.results || []).map(fromTvResult);
+}
+
+export function searchTitles(query: string, year: string | undefined, mediaType: MediaType): Promise<TmdbMovieResult[]> {
+  return mediaType === 'tv' ? searchTvShows(query, year) : searchMovies(query, year);
+}
+
+export function findDirector(crew: TmdbCrewMember[] | undefined): string {
+  return crew?.find(person => person.job === 'Director')?.name || '';
+}
+
+// What goes in a record's `director` slot: the director for a movie, the
+// creator(s) for a series.
+export function findCreator(details: TmdbMovieDetails): string {
+  if (details.media_type === 'tv') {
+    return (details.created_by || []).map(person => person.name).join(', ');
+  }
+  return findDirector(details.credits?.crew);
+}
+
+export async function fetchCredits(id: number, mediaType: MediaType = 'movie'): Promise<TmdbCredits> {
+  return getTmdbCache().getOrLoad(`credits:${mediaKey(id, mediaType)}`, () =>
+    tmdbGet<TmdbCredits>(`/${mediaType}/${id}/credits`)
+  );
+}
+
+// Keyword ids only; TMDB lists a movie's under `keywords` and a series' under `results`.
+export async function fetchKeywordIds(id: number, mediaType: MediaType = 'movie'): Promise<number[]> {
+  return getTmdbCache().getOrLoad(`keywords:${mediaKey(id, mediaType)}`, async () => {
+    const data = await tmdbGet<{ keywords?: { id: number }[]; results?: { id: number }[] }>(`/${mediaType}/${id}/keywords`);
+    return (data.keywords || data.results || []).map(keyword => keyword.id);
+  });
+}
+
+// When several results share the exact title (remakes, same-named indies), the
+// director from our "Title (Year) - Director" string is the best tie-breaker we
+// have. Only the top few exact-title candidates are checked to keep this cheap.
+async function preferDirectorMatch(ranked: TmdbMovieResult[], title: string, director: string): Promise<TmdbMovieResult> {
+  const sameTitle = ranked
+    .filter(m => m.title.toLowerCase() === title.toLowerCase())
+    .slice(0, 3);
+  if (!director || sameTitle.length < 2) return ranked[0];
+
+  const wanted = director.toLowerCase();
+  for (const candidate of sameTitle) {
+    try {
+      const credits = await fetchCredits(candidate.id);
+      if (findDirector(credits.crew).toLowerCase() === wanted) return candidate;
+    } catch {
+      // fall through to the next candidate
+    }
+  }
+  return ranked[0];
+}
+
+// Resolves a parsed title to a single TMDB search result: exact title (with year
+// when known), then the cleaned title, then the cleaned title without the year.
+// Results are ranked with rankTmdbCandidates, so exact title/year matches boost
+// rather than override popularity, and the director breaks exact-title ties.
+// Resolutions are cached by the normalized query, so the same title asked for by
+// the card, the modal and other users only hits TMDB search once. Series skip
+// the director tie-break, since TV credits don't list one.
+export async function resolveMovie(query: MovieQuery, mediaType: MediaType = 'movie'): Promise<TmdbMovieResult> {
+  const prefix = mediaType === 'tv' ? 'query:tv:' : 'query:';
+  const key = `${prefix}${query.title.toLowerCase()}|${query.year}|${query.director.toLowerCase()}`;
+  return getTmdbCache().getOrLoad(key, () => searchAndRankMovie(query, mediaType));
+}
+
+async function searchAndRankMovie({ title, year, director }: MovieQuery, mediaType: MediaType): Promise<TmdbMovieResult> {
+  console.log(`Searching for ${mediaType}:`, { original: title, year });
+
+  let results = await searchTitles(title, year, mediaType);
+
+  if (results.length === 0) {
+    const cleanedTitle = cleanMovieTitle(title);
+    console.log('Trying cleaned title:', cleanedTitle);
+    results = await searchTitles(cleanedTitle, year, mediaType);
+  }
+
+  if (results.length === 0 && year) {
+    results = await searchTitles(cleanMovieTitle(title), undefined, mediaType);
+  }
+
+  if (results.length === 0) {
+    throw new Error(mediaType === 'tv' ? 'Series not found' : 'Movie not found');
+  }
+
+  const ranked = rankTmdbCandidates(results, title, year);
+  return mediaType === 'tv' ? ranked[0] : preferDirectorMatch(ranked, title, director);
+}
+
+// Autocomplete matches for what the user is typing, best first. A typed
+// "(Year)" is honoured the same way resolveMovie honours it, and movies and
+// series are ranked together when both are asked for. Cached by the normalized
+// query, so every keystroke that repeats a prefix is free.
+export async function suggestTitles(query: string, mediaTypes: MediaType[], limit = 8): Promise<TmdbMovieResult[]> {
+  const { title, year } = extractMovieInfo(query);
+  if (title.length < 2) return [];
+  const key = `suggest:${mediaTypes.join('+')}:${title.toLowerCase()}|${year}`;
+  const results = await getTmdbCache().getOrLoad(key, async () => {
+    const lists = await Promise.all(mediaTypes.map(mediaType => searchTitles(title, year, mediaType)));
+    return rankTmdbCandidates(lists.flat(), title, year);
+  });
+  return results.slice(0, limit);
+}
+
+// Cached per id and append set. A details payload that already carries watch
+// providers also primes the provider cache, so the backfill's provider checks
+// reuse what the description route fetched.
+export async function fetchMovieDetails(id: number, append: TmdbAppend[] = [], mediaType: MediaType = 'movie'): Promise<TmdbMovieDetails> {
+  const appendKey = [...append].sort().join(',');
+  const cache = getTmdbCache();
+  return cache.getOrLoad(`${mediaType}:${id}:${appendKey}`, async () => {
+    const details = mediaType === 'tv'
+      ? fromTvDetails(await tmdbGet<TmdbTvDetails>(`/tv/${id}`, {
+        append_to_response: appendKey.replace('release_dates', 'content_ratings') || undefined,
+      }))
+      : await tmdbGet<TmdbMovieDetails>(`/movie/${id}`, { append_to_response: appendKey || undefined });
+    if (details['watch/providers']) {
+      await cache.set(`providers:${mediaKey(id, mediaType)}`, details['watch/providers']);
+    }
+    return details;
+  });
+}
+
+// The region's certification from details fetched with 'release_dates'
+// appended, or '' when TMDB has none.
+export function certificationFor(details: TmdbMovieDetails, region: WatchRegion): string {
+  if (details.media_type === 'tv') {
+    return details.content_ratings?.results.find(r => r.iso_3166_1 === region)?.rating || '';
+  }
+  const releases = details.release_dates?.results.find(r => r.iso_3166_1 === region)?.release_dates || [];
+  return releases.find(release => release.certification)?.certification || '';
+}
+
+export function constraintFacts(details: TmdbMovieDetails, region: WatchRegion): ConstraintFacts {
+  return {
+    runtime: details.runtime || undefined,
+    year: Number(releaseYear(details.release_date)) || undefined,
+    rating: details.vote_average,
+    certification: certificationFor(details, region) || undefined,
+  };
+}
+
+// Subscription ("flatrate") provider names in one watch region for a
+// watch/providers payload — the same list the streaming-service filter matches against.
+export function flatrateProviderNames(watchProviders: TmdbWatchProviders | undefined, region: WatchRegion): string[] {
+  return (watchProviders?.results?.[region]?.flatrate || []).map(provider => provider.provider_name);
+}
+
+// Every way to watch in one region — subscription, free, ads, rent, buy — as
+// (provider, type) pairs, in TMDB's display order within each type.
+export function providerAvailability(watchProviders: TmdbWatchProviders | undefined, region: WatchRegion): ProviderAvailability[] {
+  const regionProviders = watchProviders?.results?.[region] || {};
+  return AVAILABILITY_TYPES.flatMap(type =>
+    (regionProviders[type] || []).map(provider => ({ name: provider.provider_name, type }))
+  );
+}
+
+// The cached payload covers every region; only the lookup is per region.
+export async function fetchWatchProviders(id: number, region: WatchRegion, mediaType: MediaType = 'movie'): Promise<ProviderAvailability[]> {
+  const data = await getTmdbCache().getOrLoad(`providers:${mediaKey(id, mediaType)}`, () =>
+    tmdbGet<TmdbWatchProviders>(`/${mediaType}/${id}/watch/providers`)
+  );
+  return providerAvailability(data, region);
+}
+
+// TMDB's related-titles list for a movie or series (same media type as the seed).
+export async function fetchMovieRecommendations(id: number, mediaType: MediaType = 'movie'): Promise<TmdbMovieResult[]> {
+  if (mediaType === 'tv') {
+    const data = await tmdbGet<{ results?: TmdbTvResult[] }>(`/tv/${id}/recommendations`);
+    return (data.results || []).map(fromTvResult);
+  }
+  const data = await tmdbGet<{ results?: TmdbMovieResult[] }>(`/movie/${id}/recommendations`);
+  return data.results || [];
+}
+
+// For 'tv', `with_genres` must already use TV genre ids (see tvGenreIdsForMovie).
+export async function discoverMovies(params: Record<string, string | number | undefined>, mediaType: MediaType = 'movie'): Promise<TmdbMovieResult[]> {
+  if (mediaType === 'tv') {
+    const data = await tmdbGet<{ results?: TmdbTvResult[] }>('/discover/tv', params);
+    return (data.results || []).map(fromTvResult);
+  }
+  const data = await tmdbGet<{ results?: TmdbMovieResult[] }>('/discover/movie', params);
+  return data.results || [];
+}
+
+export interface TmdbTrendingMovie {
+  id: number;
+  title: string;
+  poster_path: string;
+  release_date: string;
+  vote_average: number;
+  media_type: MediaType;
+  genre_ids: number[];
+}
+
+export type TrendingWindow = 'day' | 'week';
+
+export interface TmdbTrendingPage {
+  results: TmdbTrendingMovie[];
+  page: number;
+  total_pages: number;
+}
+
+// Series genre ids are mapped onto movie ids, like the other TV results.
+export async function fetchTrendingMovies(
+  mediaType: MediaType = 'movie',
+  window: TrendingWindow = 'week',
+  page = 1
+): Promise<TmdbTrendingPage> {
+  if (mediaType === 'tv') {
+    const data = await tmdbGet<{ results: (TmdbTvResult & { poster_path: string; vote_average: number })[]; page: number; total_pages: number }>(`/trending/tv/${window}`, { page });
+    return {
+      page: data.page,
+      total_pages: data.total_pages,
+      results: data.results.map(show => ({
+        id: show.id,
+        title: show.name,
+        poster_path: show.poster_path,
+        release_date: show.first_air_date,
+        vote_average: show.vote_average,
+        media_type: 'tv' as const,
+        genre_ids: movieGenreIdsForTv(show.genre_ids || []),
+      })),
+    };
+  }
+  const data = await tmdbGet<TmdbTrendingPage>(`/trending/movie/${window}`, { page });
+  return { ...data, results: data.results.map(movie => ({ ...movie, media_type: 'movie' as const, genre_ids: movie.genre_ids || [] })) };
+}
+
+// Logs a failed TMDB call and maps it onto the error message/status the routes
+// send back to the client.
+export function describeTmdbError(error: unknown, fallbackMessage = 'Failed to get movie details'): { message: string; status: number } {
+  const tmdbError = error as TMDBError;
+  console.error('Detailed error:', {
+    message: tmdbError.message,
+    type: tmdbError.type,
+    response: tmdbError.response?.data,
+    status: tmdbError.response?.status
+  });
+
+  let message = fallbackMessage;
+  if (!isTmdbConfigured()) {
+    message = 'API key not configured properly';
+  } else if (tmdbError.response?.status === 401) {
+    message = 'Invalid API key';
+  } else if (tmdbError.message) {
+    message = `Error: ${tmdbError.message}`;
+  }
+
+  return { message, status: tmdbError.response?.status || 500 };
+}
@@ -0,0 +1,592 @@
+import { RecommendationConstraints, constraintViolations, discoverConstraintParams, hasConstraints } from './constraints';
+import {
+  AvailabilityType,
+  ProviderAvailability,
+  TMDB_GENRE_IDS,
+  WatchRegion,
+  discoverAvailabilityParams,
+  isAvailabilityFilterActive,
+  movieGenreIdsForTv,
+  movieMatchesServices,
+  tvGenreIdsForMovie,
+} from './streamingProviders';
+import { Participant, participantsForSeed } from './groups';
+import { LanguagePreferences, discoverLanguageParams, matchesLanguagePreferences } from './languages';
+import { isLikelySequelPair } from './movieMatching';
+import {
+  MediaChoice,
+  MediaType,
+  MovieRef,
+  Recommendation,
+  RecommendationReason,
+  formatMovie,
+  isExcludedMovie,
+  mediaTypesFor,
+  parseMovieList,
+} from './recommendations';
+import {
+  TmdbMovieResult,
+  constraintFacts,
+  discoverMovies,
+  fetchCredits,
+  fetchKeywordIds,
+  fetchMovieDetails,
+  fetchMovieRecommendations,
+  fetchWatchProviders,
+  findCreator,
+  findDirector,
+  mediaTypeOf,
+  releaseYear,
+  resolveMovie,
+} from './tmdbClient';
+
+// The TMDB side of recommending: resolving the user's seed movies, building a
+// candidate pool from TMDB's related-movie lists and discover queries, and
+// scoring it. Backfill hands the pool to the LLM to choose from; the TMDB-only
+// engine (recommendFromTmdb) ranks it itself, which is what runs when the LLM
+// is unavailable or the user explicitly picks it.
+//
+// Series run through the same pipeline: TMDB ids only identify a title together
+// with its media type, so candidates are keyed by both (see candidateKey).
+
+export type RecommendationEngine = 'llm' | 'tmdb';
+
+export function toRecommendationEngine(value: unknown): RecommendationEngine {
+  return value === 'tmdb' ? 'tmdb' : 'llm';
+}
+
+export interface SeedMovie {
+  // As the user typed it, so reasons can be grounded like the model's are
+  input: string;
+  id: number;
+  title: string;
+  genreIds: number[];
+  mediaType: MediaType;
+  // Group mode: who listed it (several people can share a favorite)
+  participants?: string[];
+}
+
+// A title the user said they disliked, with what candidates get compared on.
+// Series have no director in their credits, so theirs stays empty.
+export interface DislikedMovie extends SeedMovie {
+  keywordIds: number[];
+  directors: string[];
+}
+
+export function candidateKey(movie: TmdbMovieResult): string {
+  return `${mediaTypeOf(movie)}:${movie.id}`;
+}
+
+const GENRE_NAMES: Record<number, string> = Object.fromEntries(
+  Object.entries(TMDB_GENRE_IDS).map(([name, id]) => [id, name])
+);
+
+const MAX_SEED_SEARCHES = 40;
+const SEED_SEARCH_BATCH = 5;
+
+export interface SeedSearch {
+  seeds: SeedMovie[];
+  // Typed titles TMDB couldn't match, as typed, so the user can fix them
+  unresolved: string[];
+}
+
+// Look up the user's stated taste movies on TMDB to get both their ids (used to
+// pull "related movies" below) and their genre ids (used to bias the discover
+// pools) — grounding genre relevance in what the user actually said they like,
+// rather than only in whichever recommendations happened to already pass the filter.
+// Every title is resolved with resolveMovie, the same ranked search (and cache)
+// the description route uses, so a typed "(Year)" picks the right version.
+// Titles TMDB doesn't know as a movie are tried as a series, so a show can seed
+// either kind of recommendation. Lookups run SEED_SEARCH_BATCH at a time, and
+// titles past MAX_SEED_SEARCHES are ignored rather than searched.
+export async function searchSeedMovies(movies: string): Promise<SeedSearch> {
+  const resolveRef = async (ref: MovieRef): Promise<{ ref: MovieRef; seed: SeedMovie | null }> => {
+    const query = { title: ref.title, year: ref.year ? String(ref.year) : '', director: '' };
+    try {
+      const top = await resolveMovie(query, 'movie').catch(() => resolveMovie(query, 'tv'));
+      return { ref, seed: { input: ref.title, id: top.id, title: top.title, genreIds: top.genre_ids || [], mediaType: mediaTypeOf(top) } };
+    } catch {
+      return { ref, seed: null };
+    }
+  };
+
+  const refs = parseMovieList(movies).slice(0, MAX_SEED_SEARCHES);
+  const results: { ref: MovieRef; seed: SeedMovie | null }[] = [];
+  for (let i = 0; i < refs.length; i += SEED_SEARCH_BATCH) {
+    results.push(...await Promise.all(refs.slice(i, i + SEED_SEARCH_BATCH).map(resolveRef)));
+  }
+
+  return {
+    seeds: results.flatMap(({ seed }) => (seed ? [seed] : [])),
+    unresolved: results.filter(({ seed }) => !seed).map(({ ref }) => formatMovie(ref)),
+  };
+}
+
+// How much a seed counts: one each, or in group mode an equal share of each
+// participant who listed it, so everyone's list carries the same total weight.
+function seedWeight(seed: SeedMovie, seeds: SeedMovie[]): number {
+  if (!seed.participants) return 1;
+  return seed.participants.reduce(
+    (sum, name) => sum + 1 / seeds.filter(s => s.participants?.includes(name)).length,
+    0
+  );
+}
+
+// The genres to bias discover toward. Each seed gets an equal vote (see
+// seedWeight), split across its own genres, so a long list isn't decided by
+// its first entries and a seed tagged with many genres doesn't outvote the rest.
+export function seedGenreHints(seeds: SeedMovie[], limit: number): number[] {
+  const weights = new Map<number, number>();
+  seeds.forEach(seed => {
+    const weight = seedWeight(seed, seeds);
+    seed.genreIds.forEach(id => weights.set(id, (weights.get(id) || 0) + weight / seed.genreIds.length));
+  });
+  return Array.from(weights.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([id]) => id);
+}
+
+// Seeds picked from title autocomplete already carry their TMDB id, so only
+// their genres need looking up; one that no longer resolves is skipped.
+export async function resolveSeedRefs(seedRefs: MovieRef[]): Promise<SeedMovie[]> {
+  const seeds = await Promise.all(
+    seedRefs.map(async ({ title, tmdbId, mediaType = 'movie' }) => {
+      if (tmdbId === undefined) return [];
+      try {
+        const details = await fetchMovieDetails(tmdbId, [], mediaType);
+        const genreIds = details.genres.map(genre => genre.id);
+        return [{
+          input: title,
+          id: details.id,
+          title: details.title,
+          genreIds: mediaType === 'tv' ? movieGenreIdsForTv(genreIds) : genreIds,
+          mediaType,
+        }];
+      } catch {
+        return [];
+      }
+    })
+  );
+  return seeds.flat();
+}
+
+// Pool 3: TMDB's own per-movie "recommendations" (the "related movies" section
+// on a TMDB movie page) seeded from what the user said they like, filtered
+// down to only the wanted media types and the titles actually available on the
+// selected services and availability types. TMDB only relates movies to movies
+// and series to series.
+export async function fetchRelatedPool(
+  seeds: SeedMovie[],
+  mediaTypes: MediaType[],
+  services: string[],
+  region: WatchRegion,
+  availabilityTypes: AvailabilityType[]
+): Promise<TmdbMovieResult[]> {
+  const relatedSeeds = seeds.filter(s => mediaTypes.includes(s.mediaType));
+  if (relatedSeeds.length === 0) return [];
+
+  const recResponses = await Promise.all(
+    relatedSeeds.map(s => fetchMovieRecommendations(s.id, s.mediaType).catch(() => [] as TmdbMovieResult[]))
+  );
+
+  // Taken rank by rank across the seeds, so each seed contributes equally
+  const interleaved = Array.from({ length: 10 }, (_, rank) =>
+    recResponses.flatMap(results => (results[rank] ? [results[rank]] : []))
+  ).flat();
+  const related = Array.from(
+    new Map(interleaved.map(m => [candidateKey(m), m])).values()
+  ).slice(0, 20);
+
+  if (related.length === 0 || !isAvailabilityFilterActive(services, availabilityTypes)) return related;
+
+  const providerChecks = await Promise.all(
+    related.map(m =>
+      fetchWatchProviders(m.id, region, mediaTypeOf(m))
+        .then(availability => ({ movie: m, availability }))
+        .catch(() => ({ movie: m, availability: [] as ProviderAvailability[] }))
+    )
+  );
+
+  return providerChecks
+    .filter(({ availability }) => movieMatchesServices(availability, services, region, availabilityTypes))
+    .map(({ movie }) => movie);
+}
+
+// Disliked titles are resolved like seeds, plus their keywords and director(s)
+// so candidates resembling them can be down-ranked (see penalizeDisliked).
+export async function resolveDislikedMovies(dislikedMovies: string): Promise<DislikedMovie[]> {
+  if (!dislikedMovies) return [];
+  const { seeds } = await searchSeedMovies(dislikedMovies);
+  return Promise.all(
+    seeds.map(async seed => {
+      const [keywordIds, credits] = await Promise.all([
+        fetchKeywordIds(seed.id, seed.mediaType).catch(() => [] as number[]),
+        fetchCredits(seed.id, seed.mediaType).catch(() => ({ crew: [] })),
+      ]);
+      const directors = (credits.crew || []).filter(person => person.job === 'Director').map(person => person.name);
+      return { ...seed, keywordIds, directors };
+    })
+  );
+}
+
+export interface CandidatePoolOptions {
+  // Seeds picked from autocomplete, by TMDB id, alongside the typed `movies`
+  seedRefs: MovieRef[];
+  movies: string;
+  // Group mode: whose favorites `movies` combines, so seeds can be attributed
+  participants: Participant[];
+  dislikedMovies: string;
+  excludeMovies: MovieRef[];
+  // Already-seen titles, dropped without the sequel rule (see isExcludedMovie)
+  seenMovies: MovieRef[];
+  services: string[];
+  region: WatchRegion;
+  availabilityTypes: AvailabilityType[];
+  genres: string[];
+  mediaChoice: MediaChoice;
+  constraints: RecommendationConstraints;
+  languages: LanguagePreferences;
+}
+
+export interface CandidatePool {
+  seeds: SeedMovie[];
+  unresolvedSeeds: string[];
+  disliked: DislikedMovie[];
+  candidates: TmdbMovieResult[];
+  // candidateKey()s of the related-titles pool
+  relatedIds: Set<string>;
+}
+
+const MAX_CANDIDATES = 100;
+
+// Discover + related-movie pools, narrowed to the selected services and
+// availability types when the filter is active. Excluded titles, the seeds and
+// disliked titles themselves, and direct sequels/prequels of any of them are
+// dropped; so are undated entries, which can't become a Recommendation.
+export async function buildCandidatePool({
+  seedRefs,
+  movies,
+  participants,
+  dislikedMovies,
+  excludeMovies,
+  seenMovies,
+  services,
+  region,
+  availabilityTypes,
+  genres,
+  mediaChoice,
+  constraints,
+  languages,
+}: CandidatePoolOptions): Promise<CandidatePool> {
+  const mediaTypes = mediaTypesFor(mediaChoice);
+
+  // Ground genre relevance in what the user actually said they like, not just
+  // in whichever recommendations happened to already pass the filter.
+  const [pickedSeeds, { seeds: typedSeeds, unresolved: unresolvedSeeds }, disliked] = await Promise.all([
+    resolveSeedRefs(seedRefs),
+    searchSeedMovies(movies),
+    resolveDislikedMovies(dislikedMovies),
+  ]);
+  const seeds = [
+    ...pickedSeeds,
+    ...typedSeeds.map(seed => participants.length > 0
+      ? { ...seed, participants: participantsForSeed(seed.input, participants) }
+      : seed),
+  ];
+
+  const clientGenreIds = genres.map(g => TMDB_GENRE_IDS[g]).filter(Boolean);
+  const genreIds = Array.from(new Set([...seedGenreHints(seeds, 4), ...clientGenreIds])).slice(0, 4);
+
+  // Pool 1: popular movies on the selected services that are also decently rated
+  //         (popularity alone lets notoriously bad-but-widely-searched movies through),
+  //         biased toward the taste's genres when known
+  // Pool 2: highly-rated movies on those services, also genre-biased
+  // Two pages per pool gives a genuinely wide set to choose the best matches from;
+  // when the availability filter or a movies-and-series mix needs more discover
+  // queries, one page of each.
+  // `with_genres` uses '|' (OR) so a movie only needs to match ANY of the hinted
+  // genres, not all of them at once (comma would mean AND, which is far too narrow).
+  // Series are discovered with the equivalent TV genre ids. Constraints and
+  // included languages narrow every query; the related pool isn't narrowed, so
+  // picks get re-checked (see takeConstrainedPicks). Excluded languages can only
+  // be filtered out afterwards, which the original_language on every result allows.
+  const availabilitySets = discoverAvailabilityParams(services, region, availabilityTypes);
+  const pages = availabilitySets.length * mediaTypes.length > 1 ? [1] : [1, 2];
+  const discoverQueries = mediaTypes.flatMap(mediaType => {
+    const withGenres = (mediaType === 'tv' ? tvGenreIdsForMovie(genreIds) : genreIds).join('|');
+    return availabilitySets.flatMap(availability => {
+      const baseParams = {
+        ...availability,
+        ...discoverConstraintParams(constraints, region, mediaType),
+        ...discoverLanguageParams(languages),
+        with_genres: withGenres || undefined,
+      };
+      return pages.flatMap(page => [
+        { mediaType, params: { ...baseParams, sort_by: 'popularity.desc', 'vote_count.gte': 100, 'vote_average.gte': Math.max(6, constraints.minRating || 0), page } },
+        { mediaType, params: { ...baseParams, sort_by: 'vote_average.desc', 'vote_count.gte': 200, page } },
+      ]);
+    });
+  });
+
+  const [poolResults, relatedPool] = await Promise.all([
+    Promise.all(discoverQueries.map(({ mediaType, params }) => discoverMovies(params, mediaType))),
+    fetchRelatedPool(seeds, mediaTypes, services, region, availabilityTypes),
+  ]);
+
+  const excluded: MovieRef[] = [
+    ...excludeMovies,
+    ...[...seeds, ...disliked].map(s => ({ title: s.title, tmdbId: s.id, ...(s.mediaType === 'tv' ? { mediaType: s.mediaType } : {}) })),
+  ];
+  const dedupe = new Map<string, TmdbMovieResult>();
+  [...poolResults.flat(), ...relatedPool].forEach(m => {
+    const year = Number(releaseYear(m.release_date));
+    const ref: MovieRef = { title: m.title, year, tmdbId: m.id, ...(m.media_type === 'tv' ? { mediaType: 'tv' as const } : {}) };
+    if (year && matchesLanguagePreferences(m.original_language, languages) && !isExcludedMovie(ref, excluded, seenMovies)) {
+      dedupe.set(candidateKey(m), m);
+    }
+  });
+
+  return {
+    seeds,
+    unresolvedSeeds,
+    disliked,
+    candidates: Array.from(dedupe.values()).slice(0, MAX_CANDIDATES),
+    relatedIds: new Set(relatedPool.map(candidateKey)),
+  };
+}
+
+export interface CandidatePick {
+  movie: TmdbMovieResult;
+  reason?: RecommendationReason;
+}
+
+export interface ScoredCandidate extends CandidatePick {
+  score: number;
+}
+
+interface SeedOverlap {
+  seed: SeedMovie;
+  shared: number[];
+}
+
+function averageGenreShare(overlaps: SeedOverlap[]): number {
+  if (overlaps.length === 0) return 0;
+  return overlaps.reduce((sum, { seed, shared }) => sum + shared.length / Math.max(1, seed.genreIds.length), 0) / overlaps.length;
+}
+
+// The share of each seed's genres the candidate has, averaged. In group mode
+// it's averaged per participant first, and the least-served participant counts
+// as much as the average, so a pick that suits everyone beats one that only
+// fits a single list closely.
+function seedGenreScore(overlaps: SeedOverlap[]): number {
+  const names = Array.from(new Set(overlaps.flatMap(({ seed }) => seed.participants || [])));
+  if (names.length === 0) return averageGenreShare(overlaps);
+  const perParticipant = names.map(name => averageGenreShare(overlaps.filter(({ seed }) => seed.participants?.includes(name))));
+  const mean = perParticipant.reduce((sum, score) => sum + score, 0) / perParticipant.length;
+  return 0.5 * mean + 0.5 * Math.min(...perParticipant);
+}
+
+// Genre overlap with each seed counts equally (see seedGenreScore), then
+// rating, then a bonus when TMDB itself lists the movie as related to a seed.
+// With preferPopular, vote count breaks near-ties toward well-known titles.
+export function scoreCandidates(pool: CandidatePool, preferPopular: boolean): ScoredCandidate[] {
+  const { seeds, candidates, relatedIds } = pool;
+  const maxVotes = Math.max(1, ...candidates.map(m => m.vote_count || 0));
+
+  const scored = candidates.map(movie => {
+    const genreIds = movie.genre_ids || [];
+    const overlaps = seeds.map(seed => ({
+      seed,
+      shared: seed.genreIds.filter(g => genreIds.includes(g)),
+    }));
+    const genreScore = seedGenreScore(overlaps);
+    const ratingScore = (movie.vote_average || 0) / 10;
+    const related = relatedIds.has(candidateKey(movie));
+    const popularityScore = preferPopular ? Math.log10(1 + (movie.vote_count || 0)) / Math.log10(1 + maxVotes) : 0;
+
+    return {
+      movie,
+      score: 0.55 * genreScore + 0.3 * ratingScore + (related ? 0.15 : 0) + 0.1 * popularityScore,
+      reason: describeMatch(overlaps, related),
+    };
+  });
+
+  return scored.sort((a, b) => b.score - a.score);
+}
+
+// How many of the best-scored candidates get checked against disliked titles;
+// keywords and credits are a request each, so the long tail is left alone.
+const DISLIKE_CHECK_LIMIT = 30;
+
+// Pushes down candidates that resemble a disliked title: sharing a director
+// weighs most, then shared keywords (themes, subject matter), then the same
+// share-of-genres measure the seeds use. The worst match across disliked titles counts.
+export async function penalizeDisliked(ranked: ScoredCandidate[], disliked: DislikedMovie[]): Promise<ScoredCandidate[]> {
+  if (disliked.length === 0) return ranked;
+
+  const checked = await Promise.all(
+    ranked.slice(0, DISLIKE_CHECK_LIMIT).map(async candidate => {
+      const mediaType = mediaTypeOf(candidate.movie);
+      const [keywordIds, credits] = await Promise.all([
+        fetchKeywordIds(candidate.movie.id, mediaType).catch(() => [] as number[]),
+        fetchCredits(candidate.movie.id, mediaType).catch(() => ({ crew: [] })),
+      ]);
+      const director = findDirector(credits.crew);
+      const genreIds = candidate.movie.genre_ids || [];
+      const penalty = Math.max(...disliked.map(d => {
+        const genreShare = d.genreIds.filter(g => genreIds.includes(g)).length / Math.max(1, d.genreIds.length);
+        const sharedKeywords = d.keywordIds.filter(k => keywordIds.includes(k)).length;
+        return 0.25 * genreShare
+          + 0.25 * Math.min(1, sharedKeywords / 3)
+          + (director && d.directors.includes(director) ? 0.3 : 0);
+      }));
+      return { ...candidate, score: candidate.score - penalty };
+    })
+  );
+
+  return [...checked, ...ranked.slice(DISLIKE_CHECK_LIMIT)].sort((a, b) => b.score - a.score);
+}
+
+// scoreCandidates, then down-ranked against the pool's disliked titles.
+export async function rankCandidates(pool: CandidatePool, preferPopular: boolean): Promise<ScoredCandidate[]> {
+  return penalizeDisliked(scoreCandidates(pool, preferPopular), pool.disliked);
+}
+
+// A factual reason built from what the score was based on, phrased like the
+// model's one-sentence reasons.
+function describeMatch(overlaps: SeedOverlap[], related: boolean): RecommendationReason | undefined {
+  const matching = overlaps.filter(o => o.shared.length > 0).sort((a, b) => b.shared.length - a.shared.length);
+  if (matching.length === 0) return undefined;
+
+  const [best] = matching;
+  const genreNames = best.shared.map(g => GENRE_NAMES[g]).filter(Boolean).slice(0, 3).map(g => g.toLowerCase());
+  const genreText = genreNames.length > 1
+    ? `${genreNames.slice(0, -1).join(', ')} and ${genreNames[genreNames.length - 1]}`
+    : genreNames[0] || 'its genres';
+  return {
+    seeds: matching.map(o => o.seed.input),
+    dimensions: ['genre'],
+    text: `Shares ${genreText} with ${best.seed.input}${related ? ', and TMDB lists it as a related pick' : ''}.`,
+  };
+}
+
+// Top candidates, skipping any that's a direct sequel/prequel of one already taken.
+export function takeTopPicks(ordered: CandidatePick[], count: number, taken: CandidatePick[] = []): CandidatePick[] {
+  const picks = [...taken];
+  for (const pick of ordered) {
+    if (picks.length >= count) break;
+    if (!picks.some(p => candidateKey(p.movie) === candidateKey(pick.movie) || isLikelySequelPair(p.movie.title, pick.movie.title))) {
+      picks.push(pick);
+    }
+  }
+  return picks;
+}
+
+// Checked on the title's details, so runtime and certification count too.
+async function meetsConstraints(movie: TmdbMovieResult, constraints: RecommendationConstraints, region: WatchRegion): Promise<boolean> {
+  try {
+    const details = await fetchMovieDetails(movie.id, ['release_dates'], mediaTypeOf(movie));
+    return constraintViolations(constraintFacts(details, region), constraints, region).length === 0;
+  } catch {
+    return false;
+  }
+}
+
+// takeTopPicks, also skipping candidates that break a constraint. Candidates
+// are checked one at a time in rank order, so only as many detail lookups are
+// made as it takes to fill `count`.
+export async function takeConstrainedPicks(
+  ordered: CandidatePick[],
+  count: number,
+  constraints: RecommendationConstraints,
+  region: WatchRegion,
+  taken: CandidatePick[] = []
+): Promise<CandidatePick[]> {
+  if (!hasConstraints(constraints)) return takeTopPicks(ordered, count, taken);
+
+  let picks = [...taken];
+  for (const pick of ordered) {
+    if (picks.length >= count) break;
+    const withPick = takeTopPicks([pick], picks.length + 1, picks);
+    if (withPick.length > picks.length && await meetsConstraints(pick.movie, constraints, region)) {
+      picks = withPick;
+    }
+  }
+  return picks;
+}
+
+// Directors (creators, for series) are only looked up for the handful of final
+// picks, not the whole pool.
+export async function toRecommendations(picks: CandidatePick[]): Promise<Recommendation[]> {
+  return Promise.all(
+    picks.map(async ({ movie, reason }) => {
+      const isSeries = mediaTypeOf(movie) === 'tv';
+      const director = await (isSeries
+        ? fetchMovieDetails(movie.id, [], 'tv').then(findCreator)
+        : fetchCredits(movie.id).then(credits => findDirector(credits.crew))
+      ).catch(() => '');
+      return {
+        title: movie.title,
+        year: Number(releaseYear(movie.release_date)),
+        director,
+        tmdbId: movie.id,
+        ...(isSeries ? { mediaType: 'tv' as const } : {}),
+        ...(reason ? { reason } : {}),
+      };
+    })
+  );
+}
+
+export interface TmdbRecommendOptions {
+  seedRefs: MovieRef[];
+  movies: string;
+  participants: Participant[];
+  dislikedMovies: string;
+  excludeMovies: MovieRef[];
+  seenMovies: MovieRef[];
+  services: string[];
+  region: WatchRegion;
+  availabilityTypes: AvailabilityType[];
+  count: number;
+  preferPopular: boolean;
+  mediaChoice: MediaChoice;
+  constraints: RecommendationConstraints;
+  languages: LanguagePreferences;
+}
+
+export interface TmdbRecommendResult {
+  recommendations: Recommendation[];
+  unresolvedSeeds: string[];
+}
+
+// The non-LLM recommender: the same candidate pool backfill uses, ranked by
+// scoreCandidates instead of by a model. Services narrow the pool up front, so
+// its picks don't need the streaming filter's swap-outs.
+export async function recommendFromTmdb({
+  seedRefs,
+  movies,
+  participants,
+  excludeMovies,
+  seenMovies,
+  services,
+  region,
+  availabilityTypes,
+  count,
+  preferPopular,
+  mediaChoice,
+  dislikedMovies,
+  constraints,
+  languages,
+}: TmdbRecommendOptions): Promise<TmdbRecommendResult> {
+  // Mood-only requests have no seeds, so the discover pools' rating and
+  // popularity decide; the mood itself only reaches the LLM prompts.
+  if (count <= 0) return { recommendations: [], unresolvedSeeds: [] };
+
+  const pool = await buildCandidatePool({ seedRefs, movies, participants, dislikedMovies, excludeMovies, seenMovies, services, region, availabilityTypes, genres: [], mediaChoice, constraints, languages });
+  const picks = await takeConstrainedPicks(await rankCandidates(pool, preferPopular), count, constraints, region);
+  const recommendations = await toRecommendations(picks);
+  console.log('TMDB engine picks:', recommendations.map(formatMovie));
+
+  return { recommendations, unresolvedSeeds: pool.unresolvedSeeds };
+}
@@ -0,0 +1,83 @@
+import { MediaChoice } from './recommendations';
+import {
+  AvailabilityType,
+  ProviderAvailability,
+  TMDB_GENRE_IDS,
+  WatchRegion,
+  isAvailabilityFilterActive,
+  movieMatchesServices,
+} from './streamingProviders';
+import { TmdbTrendingMovie, TrendingWindow, fetchTrendingMovies, fetchWatchProviders } from './tmdbClient';
+
+// The trending tab's pages: TMDB's trending list for the day or week, narrowed
+// to a genre and to what the user can watch. TMDB's trending endpoints take no
+// filters, so both are applied to each fetched page; a filtered page can come
+// back short (or empty) while later pages still have matches.
+
+export interface TrendingTitle extends TmdbTrendingMovie {
+  // Where it can be watched in the requested region
+  availability: ProviderAvailability[];
+}
+
+export interface TrendingPage {
+  results: TrendingTitle[];
+  page: number;
+  totalPages: number;
+}
+
+export interface TrendingQuery {
+  media: MediaChoice;
+  window: TrendingWindow;
+  page: number;
+  // TMDB movie genre id (series genres are mapped onto these)
+  genreId?: number;
+  region: WatchRegion;
+  services: string[];
+  availabilityTypes: AvailabilityType[];
+}
+
+// TMDB serves at most this many trending pages
+const MAX_TRENDING_PAGE = 500;
+
+export function toTrendingWindow(value: unknown): TrendingWindow {
+  return value === 'day' ? 'day' : 'week';
+}
+
+export function toTrendingPage(value: unknown): number {
+  const page = Number(value);
+  return Number.isInteger(page) && page >= 1 ? Math.min(page, MAX_TRENDING_PAGE) : 1;
+}
+
+// A genre name from TMDB_GENRE_IDS; anything else means no genre filter.
+export function toTrendingGenreId(value: unknown): number | undefined {
+  return typeof value === 'string' && Object.hasOwn(TMDB_GENRE_IDS, value) ? TMDB_GENRE_IDS[value] : undefined;
+}
+
+export async function fetchTrendingPage(query: TrendingQuery): Promise<TrendingPage> {
+  const { media, window, page, genreId, region, services, availabilityTypes } = query;
+
+  let titles: TmdbTrendingMovie[];
+  let totalPages: number;
+  if (media === 'both') {
+    // Series are interleaved with movies
+    const [movies, series] = await Promise.all([fetchTrendingMovies('movie', window, page), fetchTrendingMovies('tv', window, page)]);
+    titles = movies.results.flatMap((movie, i) => (series.results[i] ? [movie, series.results[i]] : [movie]));
+    titles.push(...series.results.slice(movies.results.length));
+    totalPages = Math.max(movies.total_pages, series.total_pages);
+  } else {
+    const data = await fetchTrendingMovies(media, window, page);
+    titles = data.results;
+    totalPages = data.total_pages;
+  }
+
+  const inGenre = genreId === undefined ? titles : titles.filter(title => title.genre_ids.includes(genreId));
+  const withAvailability = await Promise.all(inGenre.map(async title => ({
+    ...title,
+    availability: await fetchWatchProviders(title.id, region, title.media_type).catch(() => []),
+  })));
+  const results = isAvailabilityFilterActive(services, availabilityTypes)
+    ? withAvailability.filter(title => movieMatchesServices(title.availability, services, region, availabilityTypes))
+    : withAvailability;
+
+  return { results, page, totalPages: Math.min(totalPages, MAX_TRENDING_PAGE) };
+}
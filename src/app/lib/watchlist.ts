@@ -0,0 +1,67 @@
+import { MAX_TITLE_LENGTH, MediaType, MovieRef } from './recommendations';
+import { ProviderAvailability, WatchRegion, toProviderAvailability, toWatchRegion } from './streamingProviders';
+
+// A saved title, with everything needed to show it again without resolving it:
+// its TMDB identity, poster, and the ways to watch it as of the last check.
+export interface WatchlistItem extends MovieRef {
+  tmdbId: number;
+  year: number;
+  director: string;
+  posterUrl: string | null;
+  availability: ProviderAvailability[];
+  // Where `availability` was last checked, and when the title was saved (epoch ms)
+  region: WatchRegion;
+  addedAt: number;
+}
+
+export const MAX_WATCHLIST_ITEMS = 500;
+const MAX_POSTER_URL_LENGTH = 300;
+
+export function watchlistKey(item: { tmdbId: number; mediaType?: MediaType }): string {
+  return `${item.mediaType || 'movie'}:${item.tmdbId}`;
+}
+
+// Browsers name their watchlist with a random id; it doubles as the sync code.
+export function isWatchlistId(value: unknown): value is string {
+  return typeof value === 'string' && /^[A-Za-z0-9_-]{8,64}$/.test(value);
+}
+
+// Validates an untrusted watchlist from localStorage or a request body. Items
+// without a TMDB id are dropped, as are repeats and anything past the limit;
+// long titles, director names and poster URLs are cut short.
+export function toWatchlistItems(value: unknown): WatchlistItem[] {
+  if (!Array.isArray(value)) return [];
+  const items = new Map<string, WatchlistItem>();
+  value.forEach(entry => {
+    if (!entry || typeof entry !== 'object') return;
+    const { title, year, tmdbId, mediaType, director, posterUrl, availability, region, addedAt } = entry as Record<string, unknown>;
+    if (typeof title !== 'string' || !title.trim()) return;
+    if (typeof tmdbId !== 'number' || !Number.isInteger(tmdbId)) return;
+    const item: WatchlistItem = {
+      title: title.trim().slice(0, MAX_TITLE_LENGTH),
+      year: typeof year === 'number' && Number.isInteger(year) ? year : 0,
+      tmdbId,
+      ...(mediaType === 'tv' ? { mediaType: 'tv' as const } : {}),
+      director: typeof director === 'string' ? director.slice(0, MAX_TITLE_LENGTH) : '',
+      posterUrl: typeof posterUrl === 'string' && posterUrl.length <= MAX_POSTER_URL_LENGTH ? posterUrl : null,
+      availability: toProviderAvailability(availability),
+      region: toWatchRegion(region),
+      addedAt: typeof addedAt === 'number' && Number.isFinite(addedAt) ? addedAt : 0,
+    };
+    if (!items.has(watchlistKey(item))) items.set(watchlistKey(item), item);
+  });
+  return Array.from(items.values()).slice(0, MAX_WATCHLIST_ITEMS);
+}
+
+// Union of two copies of a watchlist (this browser's and the synced one),
+// newest first. A title saved on both sides keeps whichever copy was saved later.
+export function mergeWatchlists(a: WatchlistItem[], b: WatchlistItem[]): WatchlistItem[] {
+  const merged = new Map<string, WatchlistItem>();
+  [...a, ...b].forEach(item => {
+    const existing = merged.get(watchlistKey(item));
+    if (!existing || item.addedAt > existing.addedAt) merged.set(watchlistKey(item), item);
+  });
+  return Array.from(merged.values())
+    .sort((x, y) => y.addedAt - x.addedAt)
+    .slice(0, MAX_WATCHLIST_ITEMS);
+}
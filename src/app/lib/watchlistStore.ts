@@ -0,0 +1,37 @@
+import { JsonFileStore, createJsonFileStore } from './fileStore';
+import { MAX_WATCHLIST_ITEMS, WatchlistItem } from './watchlist';
+
+// Optional server-side copy of each browser's watchlist, keyed by its id, so
+// the list survives cleared storage and can be picked up on another device.
+// Lists are user data, so they're kept until replaced rather than cached.
+//
+// Configured from the environment:
+//   WATCHLIST_STORE_DIR    directory watchlists are kept in; sync is off when unset
+
+export interface WatchlistStore {
+  load(id: string): Promise<WatchlistItem[]>;
+  save(id: string, items: WatchlistItem[]): Promise<void>;
+}
+
+function createWatchlistStore(files: JsonFileStore): WatchlistStore {
+  return {
+    async load(id) {
+      return (await files.read<WatchlistItem[]>(`watchlist:${id}`)) || [];
+    },
+    async save(id, items) {
+      await files.write(`watchlist:${id}`, items.slice(0, MAX_WATCHLIST_ITEMS));
+    },
+  };
+}
+
+let sharedStore: WatchlistStore | null = null;
+
+// Null when no store directory is configured.
+export function getWatchlistStore(): WatchlistStore | null {
+  const dir = process.env.WATCHLIST_STORE_DIR;
+  if (!dir) return null;
+  if (!sharedStore) {
+    sharedStore = createWatchlistStore(createJsonFileStore(dir));
+  }
+  return sharedStore;
+}
@@ -1,10 +1,111 @@
 'use client';
 
-import { useState, useEffect, FormEvent, KeyboardEvent } from 'react';
+import { useState, useEffect, useRef, FormEvent, KeyboardEvent } from 'react';
 import axios, { AxiosError } from 'axios';
 import Image from 'next/image';
-import { STREAMING_PROVIDERS, movieMatchesServices } from './lib/streamingProviders';
-import { isLikelySequelPair } from './lib/movieMatching';
+import {
+  AVAILABILITY_TYPES,
+  AVAILABILITY_TYPE_LABELS,
+  AvailabilityType,
+  DEFAULT_AVAILABILITY_TYPES,
+  DEFAULT_WATCH_REGION,
+  ProviderAvailability,
+  TMDB_GENRE_IDS,
+  WATCH_REGIONS,
+  WATCH_REGION_NAMES,
+  WatchRegion,
+  isAvailabilityFilterActive,
+  matchedServiceNames,
+  movieMatchesServices,
+  streamingProvidersFor,
+  toAvailabilityTypes,
+  toWatchRegion
+} from './lib/streamingProviders';
+import {
+  CERTIFICATIONS_BY_REGION,
+  ConstraintFacts,
+  RecommendationConstraints,
+  constraintViolations,
+  hasConstraints,
+  toConstraints
+} from './lib/constraints';
+import {
+  LANGUAGE_CODES,
+  LanguagePreferences,
+  NO_LANGUAGE_PREFERENCES,
+  hasLanguagePreferences,
+  languageName,
+  matchesLanguagePreferences,
+  toLanguagePreferences
+} from './lib/languages';
+import {
+  GroupServiceMode,
+  MAX_PARTICIPANTS,
+  Participant,
+  groupMovieList,
+  groupServices,
+  participantsForSeeds,
+  toGroupServiceMode,
+  toParticipants
+} from './lib/groups';
+import { isLikelySequelPair, normalizeMovieTitle } from './lib/movieMatching';
+import {
+  MAX_SEEN_MOVIES,
+  MEDIA_CHOICES,
+  MOOD_MAX_LENGTH,
+  MediaChoice,
+  MediaType,
+  MovieRef,
+  Recommendation,
+  RecommendationReason,
+  Reactions,
+  TitleSuggestion,
+  formatMovie,
+  formatSeasons,
+  isSameMovie,
+  parseMovieList,
+  toMediaChoice,
+  toMovieRefs
+} from './lib/recommendations';
+import { readSseEvents } from './lib/sse';
+import { EXPORT_FORMATS, EXPORT_FORMAT_LABELS, ExportEntry, ExportFormat, exportFile } from './lib/listExport';
+import type { RatingsImportResult } from './lib/ratingsImport';
+import type { TrendingWindow } from './lib/tmdbClient';
+import type { RecommendationEngine } from './lib/tmdbRecommender';
+import type { TrendingPage, TrendingTitle } from './lib/trending';
+import { WatchlistItem, isWatchlistId, mergeWatchlists, toWatchlistItems, watchlistKey } from './lib/watchlist';
+
+const RUNTIME_LIMITS = [90, 120, 150];
+const RATING_MINIMUMS = [6, 7, 8];
+
+const constraintRowStyle = {
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  gap: '8px',
+  padding: '4px',
+  fontSize: '14px',
+  color: '#ffffff'
+};
+
+const constraintInputStyle = {
+  backgroundColor: '#262626',
+  color: '#ffffff',
+  border: '1px solid rgba(255, 255, 255, 0.15)',
+  borderRadius: '6px',
+  padding: '4px 6px',
+  fontSize: '13px'
+};
+
+// Group mode starts with two blank participants
+const EMPTY_PARTICIPANT: Participant = { name: '', movies: '', services: [] };
+const NEW_GROUP: Participant[] = [EMPTY_PARTICIPANT, EMPTY_PARTICIPANT];
+
+const MEDIA_CHOICE_LABELS: Record<MediaChoice, string> = {
+  movie: 'Movies',
+  tv: 'Series',
+  both: 'Movies & series',
+};
 
 interface MovieDescription {
   title: string;
@@ -12,17 +113,13 @@ interface MovieDescription {
   poster_path: string;
   cast?: string[];
   streaming?: string[];
+  availability?: ProviderAvailability[];
   genres?: string[];
+  original_language?: string;
+  facts?: ConstraintFacts;
   trailer?: string;
   tmdb_url?: string;
-}
-
-interface TrendingMovie {
-  id: number;
-  title: string;
-  poster_path: string;
-  vote_average: number;
-  release_date: string;
+  tmdb_id?: number;
 }
 
 interface ModalMovieData {
@@ -33,24 +130,121 @@ interface ModalMovieData {
   cast?: string[];
   director?: string;
   genres?: string[];
-  runtime?: number;
+  original_language?: string;
+  runtime?: number; // episode runtime for a series
+  media_type?: MediaType;
+  seasons?: number | null;
   rating?: number;
   year?: number;
   streaming?: string[];
+  availability?: ProviderAvailability[];
   trailer?: string;
   tmdb_url?: string;
+  tmdb_id?: number;
+}
+
+// A thumbs up or down on a shown pick
+interface PickReaction {
+  movie: Recommendation;
+  liked: boolean;
+}
+
+// A result list set aside by "More like this", restored from the breadcrumb
+interface ResultsSnapshot {
+  // Null for a run from the form
+  seed: MovieRef | null;
+  recommendations: Recommendation[];
+  previousMovies: MovieRef[];
+  replacedMovies: Record<string, Recommendation>;
+  descriptions: Record<string, MovieDescription>;
+  resultParticipants: Participant[];
+  resultEngine: RecommendationEngine | null;
+  unresolvedSeeds: string[];
+}
+
+// How many titles the watchlist re-check and list exports look up at once
+const WATCHLIST_CHECK_BATCH = 6;
+
+const TRENDING_WINDOW_LABELS: Record<TrendingWindow, string> = {
+  day: 'Today',
+  week: 'This Week',
+};
+
+// Infinite scroll stops here: with a narrow genre or service filter most
+// trending pages come back empty, and each one costs a provider lookup per title
+const MAX_TRENDING_PAGES = 20;
+
+interface TrendingFilters {
+  media: MediaChoice;
+  window: TrendingWindow;
+  genre: string;
+  region: WatchRegion;
+  services: string[];
+  types: AvailabilityType[];
+}
+
+async function fetchTrendingPage(page: number, filters: TrendingFilters): Promise<TrendingPage> {
+  const { media, genre, region, services, types } = filters;
+  const response = await axios.get<TrendingPage>('/api/trending', {
+    params: {
+      media,
+      window: filters.window,
+      page,
+      genre: genre || undefined,
+      region,
+      services: services.join(',') || undefined,
+      types: types.join(','),
+    },
+  });
+  return response.data;
+}
+
+// A fresh watchlist id; it doubles as the sync code shown to the user
+function newWatchlistId(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(12)), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// The server's copy of a watchlist, or null when sync isn't configured (or
+// the server can't be reached) and the list stays in this browser.
+async function fetchSyncedWatchlist(id: string): Promise<WatchlistItem[] | null> {
+  try {
+    const response = await axios.get<{ items: unknown }>('/api/watchlist', { params: { id } });
+    return toWatchlistItems(response.data.items);
+  } catch (err) {
+    if ((err as AxiosError).response?.status !== 501) {
+      console.error('Error loading synced watchlist:', err);
+    }
+    return null;
+  }
 }
 
 export default function Home() {
   const [movies, setMovies] = useState('');
-  const [recommendations, setRecommendations] = useState<string | null>(null);
+  // Seeds picked from title autocomplete, sent as exact TMDB ids
+  const [seedChips, setSeedChips] = useState<MovieRef[]>([]);
+  const [suggestions, setSuggestions] = useState<TitleSuggestion[]>([]);
+  // Comma-separated titles to steer away from
+  const [dislikedMovies, setDislikedMovies] = useState('');
+  // Optional free-text mood, sent alongside (or instead of) the favorites
+  const [mood, setMood] = useState('');
+  const [recommendations, setRecommendations] = useState<Recommendation[] | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [trendingMovies, setTrendingMovies] = useState<TrendingMovie[]>([]);
+  // Trending tab: pages of TMDB's trending list, filtered server-side and
+  // appended as the end of the list scrolls into view
+  const [trendingMovies, setTrendingMovies] = useState<TrendingTitle[]>([]);
+  const [trendingWindow, setTrendingWindow] = useState<TrendingWindow>('week');
+  const [trendingGenre, setTrendingGenre] = useState('');
+  const [trendingPage, setTrendingPage] = useState(0);
+  const [trendingTotalPages, setTrendingTotalPages] = useState(0);
+  const [loadingTrending, setLoadingTrending] = useState(false);
+  const [trendingEnd, setTrendingEnd] = useState<HTMLDivElement | null>(null);
+  // Bumped whenever the filters change, so pages for older filters are dropped
+  const trendingQuery = useRef(0);
     const [descriptions, setDescriptions] = useState<Record<string, MovieDescription>>({});
   const [loadingDescriptions, setLoadingDescriptions] = useState<Record<string, boolean>>({});
   const [showingDetails, setShowingDetails] = useState<Record<string, boolean>>({});
-  const [modalMovie, setModalMovie] = useState<string | null>(null);
+  const [modalMovie, setModalMovie] = useState<Recommendation | null>(null);
   const [modalData, setModalData] = useState<Record<string, ModalMovieData>>({});
   const [loadingModal, setLoadingModal] = useState<Record<string, boolean>>({});
   const [expandedDescriptions, setExpandedDescriptions] = useState<Record<string, boolean>>({});
@@ -58,16 +252,65 @@ export default function Home() {
   const [loadingMobilePosters, setLoadingMobilePosters] = useState<Record<string, boolean>>({});
   const [mobileRatings, setMobileRatings] = useState<Record<string, string>>({});
   const [isLoadingMore, setIsLoadingMore] = useState(false);
-  const [previousMovies, setPreviousMovies] = useState<string[]>([]);
+  const [previousMovies, setPreviousMovies] = useState<MovieRef[]>([]);
   const [showingTrailer, setShowingTrailer] = useState<{ [key: string]: boolean }>({});
   const [showingMobileForm, setShowingMobileForm] = useState(true);
   const [showingMobileTrending, setShowingMobileTrending] = useState(false);
   const [isMobile, setIsMobile] = useState<boolean | null>(null);
   const [selectedServices, setSelectedServices] = useState<string[]>([]);
+  const [watchRegion, setWatchRegion] = useState<WatchRegion>(DEFAULT_WATCH_REGION);
+  const [availabilityTypes, setAvailabilityTypes] = useState<AvailabilityType[]>(DEFAULT_AVAILABILITY_TYPES);
   const [preferPopular, setPreferPopular] = useState(true);
   const [useOriginalModel, setUseOriginalModel] = useState(false);
+  const [useTmdbEngine, setUseTmdbEngine] = useState(false);
+  const [mediaChoice, setMediaChoice] = useState<MediaChoice>('movie');
+  const [constraints, setConstraints] = useState<RecommendationConstraints>({});
+  const [languages, setLanguages] = useState<LanguagePreferences>(NO_LANGUAGE_PREFERENCES);
+  // Which engine produced the current list (the server falls back to TMDB when the LLM fails)
+  const [resultEngine, setResultEngine] = useState<RecommendationEngine | null>(null);
+  // Group movie-night mode: each participant's favorites and services stand in
+  // for the solo seed input and the service filter
+  const [groupMode, setGroupMode] = useState(false);
+  const [participants, setParticipants] = useState<Participant[]>(NEW_GROUP);
+  const [groupServiceMode, setGroupServiceMode] = useState<GroupServiceMode>('union');
+  // The group the current results were requested for, for per-card attribution
+  const [resultParticipants, setResultParticipants] = useState<Participant[]>([]);
+  // Typed seeds TMDB couldn't match, reported by the server so they can be fixed
+  const [unresolvedSeeds, setUnresolvedSeeds] = useState<string[]>([]);
+  // Saved titles, kept in localStorage and, when the server has a store, synced
+  // under `watchlistId`
+  const [watchlist, setWatchlist] = useState<WatchlistItem[]>([]);
+  const [watchlistId, setWatchlistId] = useState<string | null>(null);
+  const [watchlistSynced, setWatchlistSynced] = useState(false);
+  const [showingWatchlist, setShowingWatchlist] = useState(false);
+  const [checkingWatchlist, setCheckingWatchlist] = useState(false);
+  const [syncCodeInput, setSyncCodeInput] = useState('');
+  // Thumbs up/down on shown picks this session, sent with every later request
+  // as extra seeds and anti-seeds
+  const [reactions, setReactions] = useState<PickReaction[]>([]);
+  // Link to the read-only copy of the current list, once it has been shared
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [isSharing, setIsSharing] = useState(false);
+  const [shareCopied, setShareCopied] = useState(false);
+  // Titles the user has already watched, excluded from every request across sessions
+  const [seenMovies, setSeenMovies] = useState<MovieRef[]>([]);
+  const [showingSeenList, setShowingSeenList] = useState(false);
+  const [seenInput, setSeenInput] = useState('');
+  const [addingSeen, setAddingSeen] = useState(false);
+  // Letterboxd/IMDb export import, offered in the seen-list view
+  const [importingRatings, setImportingRatings] = useState(false);
+  const [importReport, setImportReport] = useState<RatingsImportResult | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  // "More like this": the title the current results were seeded with, the
+  // lists it replaced (oldest first) and the title a run is loading for
+  const [pivotSeed, setPivotSeed] = useState<MovieRef | null>(null);
+  const [resultTrail, setResultTrail] = useState<ResultsSnapshot[]>([]);
+  const [pivotingFrom, setPivotingFrom] = useState<string | null>(null);
+  // Name of the list an export is being prepared for
+  const [exportingList, setExportingList] = useState<string | null>(null);
   const [showFilterMenu, setShowFilterMenu] = useState(false);
-  const [replacedMovies, setReplacedMovies] = useState<Record<string, string>>({});
+  // Keyed by formatMovie() of the pick that was swapped out
+  const [replacedMovies, setReplacedMovies] = useState<Record<string, Recommendation>>({});
   const [isFilteringResults, setIsFilteringResults] = useState(false);
 
   // Load/persist the streaming-service filter selection
@@ -75,10 +318,31 @@ export default function Home() {
     try {
       const saved = localStorage.getItem('selectedStreamingServices');
       if (saved) setSelectedServices(JSON.parse(saved));
+      const savedRegion = localStorage.getItem('watchRegion');
+      if (savedRegion) setWatchRegion(toWatchRegion(savedRegion));
+      const savedAvailability = localStorage.getItem('availabilityTypes');
+      if (savedAvailability) setAvailabilityTypes(toAvailabilityTypes(JSON.parse(savedAvailability)));
       const savedPreferPopular = localStorage.getItem('preferPopularMoviesV2');
       if (savedPreferPopular !== null) setPreferPopular(savedPreferPopular === 'true');
       const savedOriginalModel = localStorage.getItem('useOriginalModel');
       if (savedOriginalModel !== null) setUseOriginalModel(savedOriginalModel === 'true');
+      const savedTmdbEngine = localStorage.getItem('useTmdbEngine');
+      if (savedTmdbEngine !== null) setUseTmdbEngine(savedTmdbEngine === 'true');
+      const savedMediaType = localStorage.getItem('mediaType');
+      if (savedMediaType) setMediaChoice(toMediaChoice(savedMediaType));
+      const savedConstraints = localStorage.getItem('constraints');
+      if (savedConstraints) setConstraints(toConstraints(JSON.parse(savedConstraints), toWatchRegion(savedRegion)));
+      const savedLanguages = localStorage.getItem('languages');
+      if (savedLanguages) setLanguages(toLanguagePreferences(JSON.parse(savedLanguages)));
+      const savedGroupMode = localStorage.getItem('groupMode');
+      if (savedGroupMode !== null) setGroupMode(savedGroupMode === 'true');
+      const savedParticipants = localStorage.getItem('groupParticipants');
+      const restoredParticipants = savedParticipants ? toParticipants(JSON.parse(savedParticipants)) : [];
+      if (restoredParticipants.length > 0) setParticipants([...restoredParticipants, ...NEW_GROUP].slice(0, Math.max(2, restoredParticipants.length)));
+      const savedGroupServices = localStorage.getItem('groupServices');
+      if (savedGroupServices) setGroupServiceMode(toGroupServiceMode(savedGroupServices));
+      const savedSeenMovies = localStorage.getItem('seenMovies');
+      if (savedSeenMovies) setSeenMovies(toMovieRefs(JSON.parse(savedSeenMovies)).slice(0, MAX_SEEN_MOVIES));
     } catch {
       // ignore malformed/unavailable localStorage
     }
@@ -92,6 +356,22 @@ export default function Home() {
     }
   }, [selectedServices]);
 
+  useEffect(() => {
+    try {
+      localStorage.setItem('watchRegion', watchRegion);
+    } catch {
+      // ignore unavailable localStorage
+    }
+  }, [watchRegion]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('availabilityTypes', JSON.stringify(availabilityTypes));
+    } catch {
+      // ignore unavailable localStorage
+    }
+  }, [availabilityTypes]);
+
   useEffect(() => {
     try {
       localStorage.setItem('preferPopularMoviesV2', String(preferPopular));
@@ -108,10 +388,156 @@ export default function Home() {
     }
   }, [useOriginalModel]);
 
+  useEffect(() => {
+    try {
+      localStorage.setItem('useTmdbEngine', String(useTmdbEngine));
+    } catch {
+      // ignore unavailable localStorage
+    }
+  }, [useTmdbEngine]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('mediaType', mediaChoice);
+    } catch {
+      // ignore unavailable localStorage
+    }
+  }, [mediaChoice]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('constraints', JSON.stringify(constraints));
+    } catch {
+      // ignore unavailable localStorage
+    }
+  }, [constraints]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('languages', JSON.stringify(languages));
+    } catch {
+      // ignore unavailable localStorage
+    }
+  }, [languages]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('groupMode', String(groupMode));
+      localStorage.setItem('groupParticipants', JSON.stringify(participants));
+      localStorage.setItem('groupServices', groupServiceMode);
+    } catch {
+      // ignore unavailable localStorage
+    }
+  }, [groupMode, participants, groupServiceMode]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('seenMovies', JSON.stringify(seenMovies));
+    } catch {
+      // ignore unavailable localStorage
+    }
+  }, [seenMovies]);
+
+  // Load the watchlist, then fold in the synced copy when sync is available
+  useEffect(() => {
+    let saved: WatchlistItem[] = [];
+    let id = newWatchlistId();
+    try {
+      const savedWatchlist = localStorage.getItem('watchlist');
+      if (savedWatchlist) saved = toWatchlistItems(JSON.parse(savedWatchlist));
+      const savedId = localStorage.getItem('watchlistId');
+      if (isWatchlistId(savedId)) id = savedId;
+    } catch {
+      // ignore malformed/unavailable localStorage
+    }
+    setWatchlist(saved);
+    setWatchlistId(id);
+
+    let cancelled = false;
+    fetchSyncedWatchlist(id).then(synced => {
+      if (cancelled || !synced) return;
+      setWatchlist(prev => mergeWatchlists(prev, synced));
+      setWatchlistSynced(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!watchlistId) return;
+    try {
+      localStorage.setItem('watchlist', JSON.stringify(watchlist));
+      localStorage.setItem('watchlistId', watchlistId);
+    } catch {
+      // ignore unavailable localStorage
+    }
+    if (watchlistSynced) {
+      axios.put('/api/watchlist', { id: watchlistId, items: watchlist })
+        .catch(err => console.error('Error saving synced watchlist:', err));
+    }
+  }, [watchlist, watchlistId, watchlistSynced]);
+
+  const updateParticipant = (index: number, changes: Partial<Participant>) => {
+    setParticipants(prev => prev.map((p, i) => i === index ? { ...p, ...changes } : p));
+  };
+
+  const toggleParticipantService = (index: number, name: string) => {
+    setParticipants(prev => prev.map((p, i) => i !== index ? p : {
+      ...p,
+      services: p.services.includes(name) ? p.services.filter(s => s !== name) : [...p.services, name],
+    }));
+  };
+
+  // Participants who listed favorites; group mode only applies once someone has
+  const activeParticipants = groupMode ? toParticipants(participants) : [];
+  const inGroup = activeParticipants.length > 0;
+  const activeServices = inGroup ? groupServices(activeParticipants, groupServiceMode) : selectedServices;
+  const seedMovies = (): MovieRef[] => inGroup
+    ? parseMovieList(groupMovieList(activeParticipants))
+    : [...seedChips, ...parseMovieList(movies)];
+
   const toggleService = (name: string) => {
     setSelectedServices(prev => prev.includes(name) ? prev.filter(s => s !== name) : [...prev, name]);
   };
 
+  // At least one way to watch always stays selected
+  const toggleAvailabilityType = (type: AvailabilityType) => {
+    setAvailabilityTypes(prev => {
+      const next = prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type];
+      return next.length > 0 ? AVAILABILITY_TYPES.filter(t => next.includes(t)) : prev;
+    });
+  };
+
+  // Services and certifications are per country, so keep only the selections
+  // that also exist in the new region
+  const changeWatchRegion = (region: WatchRegion) => {
+    const available = streamingProvidersFor(region).map(p => p.name);
+    setWatchRegion(region);
+    setSelectedServices(prev => prev.filter(name => available.includes(name)));
+    setParticipants(prev => prev.map(p => ({ ...p, services: p.services.filter(name => available.includes(name)) })));
+    setConstraints(prev => toConstraints(prev, region));
+  };
+
+  // Each click moves a language along any → only → never → any
+  const cycleLanguage = (code: string) => {
+    setLanguages(prev => {
+      const include = prev.include.filter(c => c !== code);
+      const exclude = prev.exclude.filter(c => c !== code);
+      if (prev.include.includes(code)) return { include, exclude: [...exclude, code] };
+      if (prev.exclude.includes(code)) return { include, exclude };
+      return { include: [...include, code], exclude };
+    });
+  };
+
+  // An empty value clears that one constraint
+  const changeConstraint = (name: keyof RecommendationConstraints, value: string) => {
+    setConstraints(prev => toConstraints({
+      ...prev,
+      [name]: name === 'maxCertification' ? value : Number(value) || undefined,
+    }, watchRegion));
+  };
+
   // Helper function to extract YouTube video ID from URL
   const getYouTubeVideoId = (url: string): string | null => {
     if (!url) return null;
@@ -130,18 +556,110 @@ export default function Home() {
     return () => window.removeEventListener('resize', checkMobile);
   }, []);
 
-  const fetchTrendingMovies = async () => {
-    try {
-      const response = await axios.get<{ results: TrendingMovie[] }>('/api/trending');
-      setTrendingMovies(response.data.results);
-    } catch (err) {
-      console.error('Error fetching trending movies:', err);
+  // Trending follows the movies/series choice and the user's own services
+  // (not a group's), and starts over from page 1 when any filter changes
+  useEffect(() => {
+    const query = ++trendingQuery.current;
+    const fetchTrendingMovies = async () => {
+      setLoadingTrending(true);
+      try {
+        const data = await fetchTrendingPage(1, {
+          media: mediaChoice,
+          window: trendingWindow,
+          genre: trendingGenre,
+          region: watchRegion,
+          services: selectedServices,
+          types: availabilityTypes,
+        });
+        if (query !== trendingQuery.current) return;
+        setTrendingMovies(data.results);
+        setTrendingPage(1);
+        setTrendingTotalPages(data.totalPages);
+      } catch (err) {
+        console.error('Error fetching trending movies:', err);
+      } finally {
+        if (query === trendingQuery.current) setLoadingTrending(false);
+      }
+    };
+    fetchTrendingMovies();
+  }, [mediaChoice, trendingWindow, trendingGenre, watchRegion, selectedServices, availabilityTypes]);
+
+  // Loads the next trending page once the end of the list is visible. The
+  // observer is recreated after each page, so a page the filters emptied is
+  // followed straight away by the next one.
+  useEffect(() => {
+    if (!trendingEnd || loadingTrending || trendingPage === 0) return;
+    if (trendingPage >= Math.min(trendingTotalPages, MAX_TRENDING_PAGES)) return;
+
+    const observer = new IntersectionObserver(async entries => {
+      if (!entries.some(entry => entry.isIntersecting)) return;
+      observer.disconnect();
+      const query = trendingQuery.current;
+      setLoadingTrending(true);
+      try {
+        const data = await fetchTrendingPage(trendingPage + 1, {
+          media: mediaChoice,
+          window: trendingWindow,
+          genre: trendingGenre,
+          region: watchRegion,
+          services: selectedServices,
+          types: availabilityTypes,
+        });
+        if (query !== trendingQuery.current) return;
+        // Trending lists shift between requests, so a title can show up on two pages
+        setTrendingMovies(prev => [
+          ...prev,
+          ...data.results.filter(title => !prev.some(shown => shown.id === title.id && shown.media_type === title.media_type)),
+        ]);
+        setTrendingPage(trendingPage + 1);
+        setTrendingTotalPages(data.totalPages);
+      } catch (err) {
+        console.error('Error fetching more trending movies:', err);
+        // Stop here rather than retrying as long as the end stays visible
+        if (query === trendingQuery.current) setTrendingTotalPages(trendingPage);
+      } finally {
+        if (query === trendingQuery.current) setLoadingTrending(false);
+      }
+    });
+    observer.observe(trendingEnd);
+    return () => observer.disconnect();
+  }, [trendingEnd, loadingTrending, trendingPage, trendingTotalPages, mediaChoice, trendingWindow, trendingGenre, watchRegion, selectedServices, availabilityTypes]);
+
+  // Suggests titles for whatever follows the last comma in the seed input
+  useEffect(() => {
+    const typed = movies.split(',').pop()?.trim() || '';
+    if (typed.length < 2) {
+      setSuggestions([]);
+      return;
     }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await axios.get<{ results: TitleSuggestion[] }>('/api/search', { params: { q: typed, media: mediaChoice } });
+        if (!cancelled) setSuggestions(response.data.results);
+      } catch (err) {
+        console.error('Error fetching title suggestions:', err);
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [movies, mediaChoice]);
+
+  // Swaps the typed fragment for a chip holding the picked title's TMDB id
+  const addSeedChip = ({ title, year, tmdbId, mediaType }: TitleSuggestion) => {
+    const chip: MovieRef = { title, year, tmdbId, ...(mediaType ? { mediaType } : {}) };
+    setSeedChips(prev => prev.some(existing => isSameMovie(existing, chip)) ? prev : [...prev, chip]);
+    const typed = movies.split(',');
+    typed.pop();
+    setMovies(typed.join(',').trim() ? `${typed.join(',').trim()}, ` : '');
+    setSuggestions([]);
   };
 
-  useEffect(() => {
-    fetchTrendingMovies();
-  }, []);
+  const removeSeedChip = (chip: MovieRef) => {
+    setSeedChips(prev => prev.filter(existing => !isSameMovie(existing, chip)));
+  };
 
   const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -152,34 +670,41 @@ export default function Home() {
     setShowingDetails({});
     setPreviousMovies([]);
     setReplacedMovies({});
+    setUnresolvedSeeds([]);
+    setResultParticipants(activeParticipants);
+    setShareUrl(null);
+    setPivotSeed(null);
+    setResultTrail([]);
 
     try {
-      // Parse input movies to exclude them from recommendations
-      const inputMovies = parseInputMovies(movies);
+      // Parse input movies to exclude them from recommendations (seen titles are sent separately)
+      const inputMovies = seedMovies();
+      const excludedMovies = inputMovies;
       console.log('Input movies for exclusion:', inputMovies);
 
-      const response = await axios.post<{ recommendations: string }>('/api/recommend', {
-        movies,
-        excludeMovies: inputMovies,
-        services: selectedServices,
-        preferPopular,
-        useOriginalModel
-      });
-      const movieList = response.data.recommendations.split('\n').filter(line => line.trim() !== '');
+      // A form run drops any "More like this" seed (still set in this render)
+      const streamed = await streamRecommendations(excludedMovies, null);
+      if (streamed) {
+        setPreviousMovies([...inputMovies, ...streamed]);
+        return;
+      }
+
+      const response = await axios.post<{ recommendations: Recommendation[]; engine: RecommendationEngine; unresolvedSeeds?: string[] }>('/api/recommend', recommendRequestBody(excludedMovies, null));
+      const movieList = response.data.recommendations;
+      setResultEngine(response.data.engine);
+      noteUnresolvedSeeds(response.data.unresolvedSeeds);
 
       // Load posters and resolve any streaming-service mismatches before revealing
       // anything, so the list appears once already filtered instead of flashing
       // the unfiltered picks first.
       const loadedData = await loadAllMobilePosters(movieList);
-      const { replacedMap, replacementMovies } = await applyStreamingFilter(movieList, loadedData, inputMovies);
+      const { replacedMap, replacementMovies } = await applyStreamingFilter(movieList, loadedData, excludedMovies, null);
 
-      setRecommendations(response.data.recommendations);
-      setPreviousMovies([...inputMovies, ...movieList, ...replacementMovies]);
+      setRecommendations(movieList);
+      setPreviousMovies([...inputMovies, ...withResolvedIds(movieList, loadedData), ...replacementMovies]);
       setReplacedMovies(replacedMap);
     } catch (err) {
-      const error = err as AxiosError<{ error: string }>;
-      const errorMessage = error.response?.data?.error || 'Failed to get recommendations. Please try again.';
-      setError(errorMessage);
+      setError(requestErrorMessage(err, 'Failed to get recommendations. Please try again.'));
       console.error('Error details:', err);
     } finally {
       setIsLoading(false);
@@ -191,20 +716,22 @@ export default function Home() {
     setError(null);
     setDescriptions({});
     setShowingDetails({});
+    setShareUrl(null);
 
     try {
-      // Parse input movies and combine with previous recommendations for exclusion
-      const inputMovies = parseInputMovies(movies);
-      const allExcludedMovies = [...new Set([...inputMovies, ...previousMovies])]; // Remove duplicates
-
-      const response = await axios.post<{ recommendations: string }>('/api/recommend', {
-        movies,
-        excludeMovies: allExcludedMovies,
-        services: selectedServices,
-        preferPopular,
-        useOriginalModel
-      });
-      const newMovieList = response.data.recommendations.split('\n').filter(line => line.trim() !== '');
+      // Combine input movies with previous recommendations for exclusion
+      const inputMovies = pivotSeed ? [pivotSeed] : seedMovies();
+      const allExcludedMovies = [...inputMovies, ...previousMovies];
+
+      const streamed = await streamRecommendations(allExcludedMovies);
+      if (streamed) {
+        setPreviousMovies(prev => [...prev, ...streamed]);
+        return;
+      }
+
+      const response = await axios.post<{ recommendations: Recommendation[]; engine: RecommendationEngine; unresolvedSeeds?: string[] }>('/api/recommend', recommendRequestBody(allExcludedMovies));
+      const newMovieList = response.data.recommendations;
+      setResultEngine(response.data.engine);
 
       // Load posters and resolve any streaming-service mismatches before revealing
       // anything, so the list appears once already filtered instead of flashing
@@ -212,20 +739,208 @@ export default function Home() {
       const loadedData = await loadAllMobilePosters(newMovieList);
       const { replacedMap, replacementMovies } = await applyStreamingFilter(newMovieList, loadedData, allExcludedMovies);
 
-      setRecommendations(response.data.recommendations);
-      setPreviousMovies(prev => [...prev, ...newMovieList, ...replacementMovies]);
+      setRecommendations(newMovieList);
+      setPreviousMovies(prev => [...prev, ...withResolvedIds(newMovieList, loadedData), ...replacementMovies]);
       setReplacedMovies(prev => ({ ...prev, ...replacedMap }));
     } catch (err) {
-      const error = err as AxiosError<{ error: string }>;
-      const errorMessage = error.response?.data?.error || 'Failed to get more recommendations. Please try again.';
-      setError(errorMessage);
+      setError(requestErrorMessage(err, 'Failed to get more recommendations. Please try again.'));
       console.error('Error details:', err);
     } finally {
       setIsLoadingMore(false);
     }
   };
 
-  const fetchDescription = async (movie: string) => {
+  // Request body shared by /api/recommend and its stream. A "More like this"
+  // run swaps the form's seeds, mood and group for its single seed and keeps
+  // every filter; of the thumbs, only the thumbs-down still apply, since liked
+  // cards would pull it back toward the run it pivoted away from.
+  const recommendRequestBody = (excludeMovies: MovieRef[], seed = pivotSeed) => ({
+    seeds: seed ? [seed] : inGroup ? [] : seedChips,
+    movies: seed ? '' : movies,
+    mood: seed ? '' : mood,
+    participants: seed ? [] : activeParticipants,
+    groupServices: groupServiceMode,
+    dislikedMovies,
+    reactions: seed ? { liked: [], disliked: reactionSignals().disliked } : reactionSignals(),
+    excludeMovies,
+    seenMovies,
+    services: activeServices,
+    region: watchRegion,
+    availabilityTypes,
+    preferPopular,
+    useOriginalModel,
+    engine: useTmdbEngine ? 'tmdb' : 'llm',
+    mediaType: mediaChoice,
+    constraints,
+    languages
+  });
+
+  const snapshotResults = (): ResultsSnapshot | null => recommendations?.length ? {
+    seed: pivotSeed,
+    recommendations,
+    previousMovies,
+    replacedMovies,
+    descriptions,
+    resultParticipants,
+    resultEngine,
+    unresolvedSeeds,
+  } : null;
+
+  const restoreResults = (snapshot: ResultsSnapshot) => {
+    setPivotSeed(snapshot.seed);
+    setRecommendations(snapshot.recommendations);
+    setPreviousMovies(snapshot.previousMovies);
+    setReplacedMovies(snapshot.replacedMovies);
+    setDescriptions(snapshot.descriptions);
+    setResultParticipants(snapshot.resultParticipants);
+    setResultEngine(snapshot.resultEngine);
+    setUnresolvedSeeds(snapshot.unresolvedSeeds);
+    setShowingDetails({});
+    setShareUrl(null);
+  };
+
+  // Starts a new run seeded with just this title. The current results (if
+  // any) go on the breadcrumb trail and are only replaced once the new ones
+  // are ready.
+  const moreLikeThis = async ({ title, year, tmdbId, mediaType }: MovieRef) => {
+    const seed: MovieRef = { title, year, tmdbId, ...(mediaType === 'tv' ? { mediaType } : {}) };
+    const current = snapshotResults();
+    const excludedMovies = [seed];
+    setPivotingFrom(formatMovie(seed));
+    setIsLoading(true);
+    setError(null);
+    setModalMovie(null);
+
+    try {
+      const response = await axios.post<{ recommendations: Recommendation[]; engine: RecommendationEngine; unresolvedSeeds?: string[] }>('/api/recommend', recommendRequestBody(excludedMovies, seed));
+      const movieList = response.data.recommendations;
+      const loadedData = await loadAllMobilePosters(movieList);
+      const { replacedMap, replacementMovies } = await applyStreamingFilter(movieList, loadedData, excludedMovies, seed);
+
+      if (current) setResultTrail(prev => [...prev, current]);
+      setPivotSeed(seed);
+      setRecommendations(movieList);
+      setPreviousMovies([seed, ...withResolvedIds(movieList, loadedData), ...replacementMovies]);
+      setReplacedMovies(replacedMap);
+      setResultParticipants([]);
+      setResultEngine(response.data.engine);
+      setUnresolvedSeeds([]);
+      setShowingDetails({});
+      setShareUrl(null);
+    } catch (err) {
+      setError(requestErrorMessage(err, `Failed to find titles like ${title}. Please try again.`));
+      console.error('Error details:', err);
+    } finally {
+      setIsLoading(false);
+      setPivotingFrom(null);
+    }
+  };
+
+  // Goes back to an earlier list on the trail, dropping everything after it
+  const backToResults = (index: number) => {
+    const snapshot = resultTrail[index];
+    if (!snapshot) return;
+    setResultTrail(prev => prev.slice(0, index));
+    restoreResults(snapshot);
+  };
+
+  const noteUnresolvedSeeds = (seeds: string[] | undefined) => {
+    if (!seeds || seeds.length === 0) return;
+    setUnresolvedSeeds(prev => Array.from(new Set([...prev, ...seeds])));
+  };
+
+  const requestErrorMessage = (err: unknown, fallback: string): string => {
+    if (axios.isAxiosError<{ error: string }>(err)) return err.response?.data?.error || fallback;
+    return err instanceof Error && err.message ? err.message : fallback;
+  };
+
+  // Streams a batch from /api/recommend/stream, replacing the current list with
+  // cards that fill in one at a time as the server verifies each pick on TMDB and
+  // against the streaming filter (backfilled replacements arrive the same way).
+  // Returns the shown movies, or null if the stream couldn't be opened at all
+  // (or ended before a card or a `done` event arrived) so the caller can fall
+  // back to the one-shot /api/recommend flow.
+  const streamRecommendations = async (excludeMovies: MovieRef[], seed = pivotSeed): Promise<Recommendation[] | null> => {
+    let response: Response;
+    try {
+      response = await fetch('/api/recommend/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(recommendRequestBody(excludeMovies, seed))
+      });
+    } catch (err) {
+      console.error('Could not open recommendation stream:', err);
+      return null;
+    }
+    if (!response.ok) {
+      const body = await response.json().catch(() => null) as { error?: string } | null;
+      throw new Error(body?.error || 'Failed to get recommendations. Please try again.');
+    }
+
+    const shown: Recommendation[] = [];
+    let streamError: string | null = null;
+    let finished = false;
+    try {
+      await readSseEvents(response, (event, data) => {
+        if (event === 'recommendation') {
+          const { recommendation, description } = data as { recommendation: Recommendation; description: MovieDescription };
+          if (shown.length === 0) {
+            setRecommendations([]);
+            setReplacedMovies({});
+          }
+          shown.push(recommendation);
+          storeMovieDescription(formatMovie(recommendation), description);
+          setRecommendations(prev => [...(prev || []), recommendation]);
+        } else if (event === 'backfill') {
+          setIsFilteringResults(true);
+        } else if (event === 'done') {
+          finished = true;
+          const { engine, unresolvedSeeds: unresolved } = data as { engine: RecommendationEngine; unresolvedSeeds?: string[] };
+          setResultEngine(engine);
+          noteUnresolvedSeeds(unresolved);
+        } else if (event === 'error') {
+          streamError = (data as { error: string }).error;
+        }
+      });
+    } finally {
+      setIsFilteringResults(false);
+    }
+
+    if (shown.length === 0) {
+      if (streamError) throw new Error(streamError);
+      if (!finished) return null;
+      throw new Error('No recommendations matched your filters. Try loosening them and searching again.');
+    }
+    return shown;
+  };
+
+  // Stores a loaded card payload: description, poster and the rating parsed
+  // out of the formatted description text.
+  const storeMovieDescription = (movie: string, data: MovieDescription) => {
+    if (data.poster_path) {
+      setMobilePosters(prev => ({ ...prev, [movie]: data.poster_path }));
+    }
+
+    // Store full description data
+    setDescriptions(prev => ({ ...prev, [movie]: data }));
+
+    // Extract and store rating
+    const ratingMatch = data.description?.match(/⭐ Rating: ([\d.]+)\/10/);
+    if (ratingMatch) {
+      setMobileRatings(prev => ({ ...prev, [movie]: ratingMatch[1] }));
+    }
+  };
+
+  // Attach the TMDB ids learned while loading cards, so later exclusion lists
+  // match by id instead of by title.
+  const withResolvedIds = (movieList: Recommendation[], loadedData: Record<string, MovieDescription>): Recommendation[] =>
+    movieList.map(movie => {
+      const tmdbId = movie.tmdbId ?? loadedData[formatMovie(movie)]?.tmdb_id;
+      return tmdbId ? { ...movie, tmdbId } : movie;
+    });
+
+  const fetchDescription = async (recommendation: Recommendation) => {
+    const movie = formatMovie(recommendation);
     if (descriptions[movie]) {
       setShowingDetails(prev => ({ ...prev, [movie]: !prev[movie] }));
       return;
@@ -233,7 +948,7 @@ export default function Home() {
 
     setLoadingDescriptions(prev => ({ ...prev, [movie]: true }));
     try {
-      const response = await axios.post<MovieDescription>('/api/description', { movieName: movie });
+      const response = await axios.post<MovieDescription>('/api/description', { movieName: movie, tmdbId: recommendation.tmdbId, mediaType: recommendation.mediaType, region: watchRegion, availabilityTypes });
       setDescriptions(prev => ({ ...prev, [movie]: response.data }));
       setShowingDetails(prev => ({ ...prev, [movie]: true }));
     } catch (err) {
@@ -241,21 +956,22 @@ export default function Home() {
       console.error(`Error fetching description for ${movie}:`, error);
       setDescriptions(prev => ({
         ...prev,
-        [movie]: { description: 'Failed to load description.', poster_path: '', title: movie },
+        [movie]: { description: 'Failed to load description.', poster_path: '', title: recommendation.title },
       }));
     } finally {
       setLoadingDescriptions(prev => ({ ...prev, [movie]: false }));
     }
   };
 
-  const fetchModalData = async (movie: string) => {
+  const fetchModalData = async (recommendation: Recommendation) => {
+    const movie = formatMovie(recommendation);
     if (modalData[movie] || loadingModal[movie]) {
       return;
     }
 
     setLoadingModal(prev => ({ ...prev, [movie]: true }));
     try {
-      const response = await axios.post<ModalMovieData>('/api/modal', { movieName: movie });
+      const response = await axios.post<ModalMovieData>('/api/modal', { movieName: movie, tmdbId: recommendation.tmdbId, mediaType: recommendation.mediaType, region: watchRegion });
       setModalData(prev => ({ ...prev, [movie]: response.data }));
     } catch (err) {
       const error = err as AxiosError;
@@ -263,7 +979,7 @@ export default function Home() {
       setModalData(prev => ({
         ...prev,
         [movie]: { 
-          title: movie.split(' (')[0], 
+          title: recommendation.title, 
           description: 'Failed to load movie details.',
           poster_path: ''
         },
@@ -273,7 +989,8 @@ export default function Home() {
     }
   };
 
-  const loadMobilePoster = async (movie: string): Promise<MovieDescription | null> => {
+  const loadMobilePoster = async (recommendation: Recommendation): Promise<MovieDescription | null> => {
+    const movie = formatMovie(recommendation);
     if (mobilePosters[movie] || loadingMobilePosters[movie]) {
       return descriptions[movie] || null;
     }
@@ -282,22 +999,9 @@ export default function Home() {
     setLoadingMobilePosters(prev => ({ ...prev, [movie]: true }));
 
     try {
-      const response = await axios.post<MovieDescription>('/api/description', { movieName: movie });
+      const response = await axios.post<MovieDescription>('/api/description', { movieName: movie, tmdbId: recommendation.tmdbId, mediaType: recommendation.mediaType, region: watchRegion, availabilityTypes });
       console.log(`Got poster response for ${movie}:`, response.data.poster_path);
-
-      if (response.data.poster_path) {
-        setMobilePosters(prev => ({ ...prev, [movie]: response.data.poster_path }));
-      }
-
-      // Store full description data
-      setDescriptions(prev => ({ ...prev, [movie]: response.data }));
-
-      // Extract and store rating
-      const ratingMatch = response.data.description?.match(/⭐ Rating: ([\d.]+)\/10/);
-      if (ratingMatch) {
-        setMobileRatings(prev => ({ ...prev, [movie]: ratingMatch[1] }));
-      }
-
+      storeMovieDescription(movie, response.data);
       return response.data;
     } catch (err) {
       console.error(`Failed to load poster for ${movie}:`, err);
@@ -307,14 +1011,257 @@ export default function Home() {
     }
   };
 
-  const loadAllMobilePosters = async (movies: string[]): Promise<Record<string, MovieDescription>> => {
+  // A pick as a watchlist entry, from whatever its card or modal has loaded;
+  // null while its TMDB id is still unknown.
+  const toWatchlistItem = (recommendation: Recommendation, loaded?: MovieDescription): WatchlistItem | null => {
+    const movie = formatMovie(recommendation);
+    const details = loaded || descriptions[movie];
+    const modal = modalData[movie];
+    const tmdbId = recommendation.tmdbId ?? details?.tmdb_id ?? modal?.tmdb_id;
+    if (!tmdbId) return null;
+    return {
+      title: recommendation.title,
+      year: recommendation.year,
+      tmdbId,
+      ...(recommendation.mediaType ? { mediaType: recommendation.mediaType } : {}),
+      director: recommendation.director,
+      posterUrl: details?.poster_path || modal?.poster_path || mobilePosters[movie] || null,
+      availability: details?.availability || modal?.availability || [],
+      region: watchRegion,
+      addedAt: Date.now(),
+    };
+  };
+
+  // A pick with the TMDB id its card or modal data resolved, when known
+  const withLoadedId = (recommendation: Recommendation): Recommendation => {
+    const movie = formatMovie(recommendation);
+    const tmdbId = recommendation.tmdbId ?? descriptions[movie]?.tmdb_id ?? modalData[movie]?.tmdb_id;
+    return tmdbId ? { ...recommendation, tmdbId } : recommendation;
+  };
+
+  const savedWatchlistItem = (recommendation: Recommendation): WatchlistItem | undefined => {
+    const resolved = withLoadedId(recommendation);
+    return watchlist.find(item => isSameMovie(item, resolved));
+  };
+
+  const isSeen = (recommendation: Recommendation): boolean => {
+    const resolved = withLoadedId(recommendation);
+    return seenMovies.some(seen => isSameMovie(seen, resolved));
+  };
+
+  const addSeenMovies = (movieList: MovieRef[]) => {
+    setSeenMovies(prev => [
+      ...movieList.filter((movie, i) => !prev.some(seen => isSameMovie(seen, movie)) && movieList.findIndex(other => isSameMovie(other, movie)) === i),
+      ...prev,
+    ].slice(0, MAX_SEEN_MOVIES));
+  };
+
+  const removeSeenMovie = (movie: MovieRef) => {
+    setSeenMovies(prev => prev.filter(seen => !isSameMovie(seen, movie)));
+  };
+
+  const toggleSeen = (recommendation: Recommendation) => {
+    const { title, year, tmdbId, mediaType } = withLoadedId(recommendation);
+    const seen: MovieRef = { title, year, ...(tmdbId ? { tmdbId } : {}), ...(mediaType ? { mediaType } : {}) };
+    if (isSeen(recommendation)) {
+      removeSeenMovie(seen);
+    } else {
+      addSeenMovies([seen]);
+    }
+  };
+
+  // Everything in the export is marked seen, and its best-rated titles become seed chips
+  const importRatings = async (file: File) => {
+    setImportingRatings(true);
+    setImportReport(null);
+    setImportError(null);
+    try {
+      const response = await axios.post<RatingsImportResult>('/api/import', { csv: await file.text() });
+      const { seeds, watched } = response.data;
+      addSeenMovies(watched);
+      setSeedChips(prev => [...prev, ...seeds.filter(seed => !prev.some(chip => isSameMovie(chip, seed)))]);
+      setImportReport(response.data);
+    } catch (err) {
+      setImportError(requestErrorMessage(err, 'Failed to import that file. Please try again.'));
+    } finally {
+      setImportingRatings(false);
+    }
+  };
+
+  // Exports carry each title's /api/description payload, loaded for any title
+  // whose card hasn't loaded it yet (which also fills in missing TMDB ids)
+  const exportList = async (listName: string, movieList: (MovieRef & { director?: string })[], format: ExportFormat) => {
+    setExportingList(listName);
+    try {
+      const entries: ExportEntry[] = [];
+      for (let i = 0; i < movieList.length; i += WATCHLIST_CHECK_BATCH) {
+        entries.push(...await Promise.all(movieList.slice(i, i + WATCHLIST_CHECK_BATCH).map(async movie => {
+          const { title, year, tmdbId, mediaType, director } = movie;
+          const entry: ExportEntry = { title, year, tmdbId, mediaType, director };
+          const loaded = descriptions[formatMovie(movie)];
+          if (loaded?.tmdb_id) return { ...entry, details: loaded };
+          try {
+            const response = await axios.post<MovieDescription>('/api/description', { movieName: formatMovie(movie), tmdbId, mediaType, region: watchRegion, availabilityTypes });
+            return { ...entry, details: response.data };
+          } catch (err) {
+            console.error(`Could not load details for ${formatMovie(movie)}:`, err);
+            return entry;
+          }
+        })));
+      }
+
+      const { filename, mimeType, content } = exportFile(format, listName, entries);
+      const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } finally {
+      setExportingList(null);
+    }
+  };
+
+  const reactionTo = (recommendation: Recommendation): PickReaction | undefined => {
+    const resolved = withLoadedId(recommendation);
+    return reactions.find(reaction => isSameMovie(reaction.movie, resolved));
+  };
+
+  // Clicking the active thumb again clears it
+  const react = (recommendation: Recommendation, liked: boolean) => {
+    const movie = withLoadedId(recommendation);
+    setReactions(prev => {
+      const existing = prev.find(reaction => isSameMovie(reaction.movie, movie));
+      const others = prev.filter(reaction => reaction !== existing);
+      return existing?.liked === liked ? others : [...others, { movie, liked }];
+    });
+  };
+
+  const reactionSignals = (): Reactions => {
+    const refs = (liked: boolean) => reactions
+      .filter(reaction => reaction.liked === liked)
+      .map(({ movie: { title, year, tmdbId, mediaType } }) => ({ title, year, tmdbId, mediaType }));
+    return { liked: refs(true), disliked: refs(false) };
+  };
+
+  // Bulk entry: each typed title is looked up so it's excluded by TMDB id,
+  // which also catches other spellings of it. Titles with no match are kept as
+  // typed and still excluded by title.
+  const addTypedSeenMovies = async () => {
+    const typed = parseMovieList(seenInput);
+    if (typed.length === 0) return;
+    setAddingSeen(true);
+    const resolved: MovieRef[] = [];
+    for (const movie of typed) {
+      try {
+        const response = await axios.get<{ results: TitleSuggestion[] }>('/api/search', { params: { q: movie.title, media: mediaChoice } });
+        const match = response.data.results.find(result => !movie.year || result.year === movie.year);
+        resolved.push(match
+          ? { title: match.title, year: match.year, tmdbId: match.tmdbId, ...(match.mediaType ? { mediaType: match.mediaType } : {}) }
+          : movie);
+      } catch (err) {
+        console.error(`Could not look up ${formatMovie(movie)}:`, err);
+        resolved.push(movie);
+      }
+    }
+    addSeenMovies(resolved);
+    setSeenInput('');
+    setAddingSeen(false);
+  };
+
+  const removeFromWatchlist = (item: WatchlistItem) => {
+    setWatchlist(prev => prev.filter(saved => watchlistKey(saved) !== watchlistKey(item)));
+  };
+
+  // Picks whose card hasn't loaded yet are resolved first, so every entry has a TMDB id
+  const toggleWatchlist = async (recommendation: Recommendation) => {
+    const saved = savedWatchlistItem(recommendation);
+    if (saved) {
+      removeFromWatchlist(saved);
+      return;
+    }
+
+    let item = toWatchlistItem(recommendation);
+    if (!item) {
+      const movie = formatMovie(recommendation);
+      try {
+        const response = await axios.post<MovieDescription>('/api/description', { movieName: movie, mediaType: recommendation.mediaType, region: watchRegion, availabilityTypes });
+        storeMovieDescription(movie, response.data);
+        item = toWatchlistItem(recommendation, response.data);
+      } catch (err) {
+        console.error(`Could not add ${movie} to the watchlist:`, err);
+      }
+    }
+    if (item) {
+      const added = item;
+      setWatchlist(prev => mergeWatchlists([added], prev));
+    }
+  };
+
+  // Re-fetches where each saved title can be watched now, in the current region
+  const recheckWatchlist = async (items: WatchlistItem[]) => {
+    setCheckingWatchlist(true);
+    for (let i = 0; i < items.length; i += WATCHLIST_CHECK_BATCH) {
+      const checked = await Promise.all(items.slice(i, i + WATCHLIST_CHECK_BATCH).map(async item => {
+        try {
+          const response = await axios.post<MovieDescription>('/api/description', { movieName: formatMovie(item), tmdbId: item.tmdbId, mediaType: item.mediaType, region: watchRegion, availabilityTypes });
+          return {
+            ...item,
+            availability: response.data.availability || [],
+            posterUrl: response.data.poster_path || item.posterUrl,
+            region: watchRegion,
+          };
+        } catch (err) {
+          console.error(`Error re-checking ${formatMovie(item)}:`, err);
+          return null;
+        }
+      }));
+      const updated = new Map(checked.filter((item): item is WatchlistItem => item !== null).map(item => [watchlistKey(item), item]));
+      setWatchlist(prev => prev.map(item => updated.get(watchlistKey(item)) || item));
+    }
+    setCheckingWatchlist(false);
+  };
+
+  const openWatchlist = () => {
+    setShowingWatchlist(true);
+    recheckWatchlist(watchlist);
+  };
+
+  // Picks up the list saved under another device's sync code, keeping this one's titles too
+  const applySyncCode = async () => {
+    const code = syncCodeInput.trim();
+    if (!isWatchlistId(code)) return;
+    const synced = await fetchSyncedWatchlist(code);
+    if (!synced) return;
+    setWatchlist(prev => mergeWatchlists(prev, synced));
+    setWatchlistId(code);
+    setSyncCodeInput('');
+  };
+
+  // Subscriptions are matched against the user's own services, like the streaming filter
+  const watchlistStatus = (item: WatchlistItem): string => {
+    if (item.region !== watchRegion) {
+      return checkingWatchlist ? 'Checking…' : `Last checked in ${WATCH_REGION_NAMES[item.region]}`;
+    }
+    const subscriptions = item.availability.filter(a => a.type === 'flatrate').map(a => a.name);
+    const onServices = selectedServices.length > 0 && availabilityTypes.includes('flatrate')
+      ? matchedServiceNames(subscriptions, selectedServices, watchRegion)
+      : [];
+    if (onServices.length > 0) return `On ${onServices.join(', ')}`;
+    return movieMatchesServices(item.availability, selectedServices, watchRegion, availabilityTypes)
+      ? 'Available to watch'
+      : 'Not on your services right now';
+  };
+
+  // Returns the loaded descriptions keyed by formatMovie(), for the streaming filter.
+  const loadAllMobilePosters = async (movies: Recommendation[]): Promise<Record<string, MovieDescription>> => {
     console.log(`Loading posters for ${movies.length} movies:`, movies);
     const collected: Record<string, MovieDescription> = {};
     for (let i = 0; i < movies.length; i++) {
       const movie = movies[i];
-      console.log(`Loading poster ${i + 1}/${movies.length}: ${movie}`);
+      console.log(`Loading poster ${i + 1}/${movies.length}: ${formatMovie(movie)}`);
       const data = await loadMobilePoster(movie);
-      if (data) collected[movie] = data;
+      if (data) collected[formatMovie(movie)] = data;
       // Wait 200ms between each request
       if (i < movies.length - 1) {
         await new Promise(resolve => setTimeout(resolve, 200));
@@ -324,41 +1271,46 @@ export default function Home() {
     return collected;
   };
 
-  // When a streaming-service filter is active, find a verified replacement for any of the
-  // newly shown movies that don't match a selected service. Returns the replacements instead
+  // When a streaming-service or availability filter, a hard constraint or a language preference
+  // is active, find a verified replacement for any of the newly shown movies that can't be
+  // watched the way the user asked, breaks a constraint or is in an unwanted language. Returns the replacements instead
   // of applying them directly, so the caller can reveal everything to the UI in one shot.
   const applyStreamingFilter = async (
-    shownMovies: string[],
+    shownMovies: Recommendation[],
     loadedData: Record<string, MovieDescription>,
-    excludeSoFar: string[]
-  ): Promise<{ replacedMap: Record<string, string>; replacementMovies: string[] }> => {
+    excludeSoFar: MovieRef[],
+    seed = pivotSeed
+  ): Promise<{ replacedMap: Record<string, Recommendation>; replacementMovies: Recommendation[] }> => {
     const empty = { replacedMap: {}, replacementMovies: [] };
-    if (selectedServices.length === 0) return empty;
+    const filterActive = isAvailabilityFilterActive(activeServices, availabilityTypes);
+    if (!filterActive && !hasConstraints(constraints) && !hasLanguagePreferences(languages)) return empty;
 
-    const misses = shownMovies.filter(movie => !movieMatchesServices(loadedData[movie]?.streaming, selectedServices));
+    const misses = shownMovies.filter(movie => {
+      const data = loadedData[formatMovie(movie)];
+      if (filterActive && !movieMatchesServices(data?.availability, activeServices, watchRegion, availabilityTypes)) return true;
+      if (hasConstraints(constraints) && constraintViolations(data?.facts || {}, constraints, watchRegion).length > 0) return true;
+      return hasLanguagePreferences(languages) && !matchesLanguagePreferences(data?.original_language, languages);
+    });
     if (misses.length === 0) return empty;
 
     const keepers = shownMovies.filter(movie => !misses.includes(movie));
-    const genreHints = Array.from(new Set(keepers.flatMap(movie => loadedData[movie]?.genres || []))).slice(0, 4);
+    const genreHints = Array.from(new Set(keepers.flatMap(movie => loadedData[formatMovie(movie)]?.genres || []))).slice(0, 4);
 
     setIsFilteringResults(true);
     try {
-      const response = await axios.post<{ recommendations: string }>('/api/recommend/backfill', {
-        movies,
-        excludeMovies: Array.from(new Set([...excludeSoFar, ...shownMovies])),
-        services: selectedServices,
+      const response = await axios.post<{ recommendations: Recommendation[]; unresolvedSeeds?: string[] }>('/api/recommend/backfill', {
+        ...recommendRequestBody([...excludeSoFar, ...withResolvedIds(shownMovies, loadedData)], seed),
         genres: genreHints,
-        count: misses.length,
-        preferPopular,
-        useOriginalModel
+        count: misses.length
       });
 
-      const replacements = response.data.recommendations.split('\n').filter(line => line.trim() !== '');
+      noteUnresolvedSeeds(response.data.unresolvedSeeds);
+      const replacements = response.data.recommendations;
       if (replacements.length === 0) return empty;
 
-      const map: Record<string, string> = {};
+      const map: Record<string, Recommendation> = {};
       misses.forEach((missedMovie, idx) => {
-        if (replacements[idx]) map[missedMovie] = replacements[idx];
+        if (replacements[idx]) map[formatMovie(missedMovie)] = replacements[idx];
       });
 
       await loadAllMobilePosters(replacements);
@@ -384,52 +1336,961 @@ export default function Home() {
     }
   };
 
-  const parseRecommendations = (text: string | null) => {
-    if (!text) return [];
-    const recommendations = text.split('\n').filter(line => line.trim() !== '');
-    
-    // Remove duplicates by normalizing titles for comparison
-    const seen = new Set<string>();
-    return recommendations.filter(movie => {
-      // Extract just the title part for comparison (before year/director)
-      const titlePart = movie.split(' (')[0].toLowerCase().trim();
-      if (seen.has(titlePart)) {
-        return false;
-      }
-      seen.add(titlePart);
-      return true;
-    });
-  };
+  // Remove duplicates by normalized title (the model occasionally repeats itself)
+  const dedupeRecommendations = (list: Recommendation[] | null) => {
+    if (!list) return [];
+    const seen = new Set<string>();
+    return list.filter(movie => {
+      const titleKey = normalizeMovieTitle(movie.title);
+      if (seen.has(titleKey)) {
+        return false;
+      }
+      seen.add(titleKey);
+      return true;
+    });
+  };
+
+  // Applied after backfill replacements are merged in, so it catches sequel
+  // collisions regardless of whether they came from the AI's initial picks or a replacement.
+  const mergedRecommendationList = dedupeRecommendations(recommendations).map(movie => replacedMovies[formatMovie(movie)] || movie);
+  const recommendationList = mergedRecommendationList.filter((movie, idx) =>
+    !mergedRecommendationList.slice(0, idx).some(earlier => isLikelySequelPair(earlier.title, movie.title))
+  );
+
+  // Saves the list as shown (replacements included) and copies its read-only link
+  const shareResults = async () => {
+    setIsSharing(true);
+    setShareCopied(false);
+    try {
+      const response = await axios.post<{ id: string }>('/api/share', {
+        seeds: (pivotSeed ? [pivotSeed] : seedMovies()).map(movie => formatMovie(movie)),
+        mood: pivotSeed ? '' : mood,
+        mediaChoice,
+        region: watchRegion,
+        services: activeServices,
+        availabilityTypes,
+        constraints,
+        languages,
+        picks: recommendationList.map(recommendation => {
+          const movie = formatMovie(recommendation);
+          return {
+            ...withLoadedId(recommendation),
+            posterUrl: mobilePosters[movie] || descriptions[movie]?.poster_path || null,
+            availability: descriptions[movie]?.availability || [],
+          };
+        }),
+      });
+      const url = `${window.location.origin}/share/${response.data.id}`;
+      setShareUrl(url);
+      try {
+        await navigator.clipboard.writeText(url);
+        setShareCopied(true);
+      } catch {
+        // clipboard unavailable; the link is shown to copy by hand
+      }
+    } catch (err) {
+      setError(requestErrorMessage(err, 'Failed to share these recommendations. Please try again.'));
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const unresolvedSeedsNote = `Couldn't find ${unresolvedSeeds.join(', ')} on TMDB, so ${unresolvedSeeds.length === 1 ? 'it was' : 'they were'} left out. Check the spelling or pick from the suggestions.`;
+
+  const engineNote = useTmdbEngine
+    ? 'Picked from TMDB data only.'
+    : 'The AI was unavailable, so these were picked from TMDB data.';
+
+  // In group mode, whose favorites a pick draws on
+  const drawsOn = (reason: RecommendationReason | undefined): string[] =>
+    reason && resultParticipants.length > 0 ? participantsForSeeds(reason.seeds, resultParticipants) : [];
+
+  // "Why you'll like it" note shown on the mobile card and in the desktop modal
+  const ReasonNote = ({ reason, fontSize = 13 }: { reason: RecommendationReason; fontSize?: number }) => (
+    <div style={{ fontSize: `${fontSize}px`, color: '#d1d5db', lineHeight: '1.5' }}>
+      <span style={{ color: '#a78bfa', fontWeight: 600 }}>Why you&apos;ll like it: </span>
+      {reason.text}
+      {(reason.seeds.length > 0 || reason.dimensions.length > 0) && (
+        <div style={{ fontSize: `${fontSize - 1}px`, color: '#9ca3af', marginTop: '4px' }}>
+          {reason.seeds.length > 0 && `Like ${reason.seeds.join(', ')}`}
+          {reason.seeds.length > 0 && reason.dimensions.length > 0 && ' · '}
+          {reason.dimensions.join(', ')}
+        </div>
+      )}
+      {drawsOn(reason).length > 0 && (
+        <div style={{ fontSize: `${fontSize - 1}px`, color: '#a78bfa', marginTop: '4px' }}>
+          For {drawsOn(reason).join(', ')}
+        </div>
+      )}
+    </div>
+  );
+
+  // Subscriptions are the default way to watch, so only the extra types count as active filters
+  const filterCount = selectedServices.length
+    + availabilityTypes.filter(type => type !== 'flatrate').length
+    + (availabilityTypes.includes('flatrate') ? 0 : 1)
+    + (preferPopular ? 1 : 0)
+    + (useOriginalModel ? 1 : 0)
+    + (useTmdbEngine ? 1 : 0)
+    + (mediaChoice === 'movie' ? 0 : 1)
+    + Object.keys(constraints).length
+    + languages.include.length
+    + languages.exclude.length;
+
+  // Service badges labelled with how each one offers the movie (subscription, rent, ...).
+  // Older payloads without availability fall back to plain service names.
+  const AvailabilityBadges = ({ movie, padding, borderRadius }: {
+    movie: { streaming?: string[]; availability?: ProviderAvailability[] };
+    padding: string;
+    borderRadius: string;
+  }) => (
+    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', width: '100%' }}>
+      {(movie.availability || (movie.streaming || []).map(name => ({ name, type: 'flatrate' as const })))
+        .slice(0, 8)
+        .map((entry, index) => (
+          <span
+            key={index}
+            style={{
+              backgroundColor: availabilityTypes.includes(entry.type) ? 'rgba(139, 92, 246, 0.2)' : 'rgba(255, 255, 255, 0.08)',
+              color: availabilityTypes.includes(entry.type) ? '#a78bfa' : '#9ca3af',
+              padding,
+              borderRadius,
+              fontSize: '12px',
+              fontWeight: '500'
+            }}
+          >
+            {entry.name} · {AVAILABILITY_TYPE_LABELS[entry.type]}
+          </span>
+        ))}
+    </div>
+  );
+
+  // "On Netflix"-style pills for the user's own services a title streams on
+  const ServiceMatchBadges = ({ availability }: { availability: ProviderAvailability[] }) => {
+    const subscriptions = availability.filter(entry => entry.type === 'flatrate').map(entry => entry.name);
+    const names = matchedServiceNames(subscriptions, selectedServices, watchRegion);
+    return names.length > 0 ? (
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+        {names.map(name => (
+          <span key={name} style={{
+            backgroundColor: 'rgba(139, 92, 246, 0.2)',
+            color: '#a78bfa',
+            padding: '2px 8px',
+            borderRadius: '999px',
+            fontSize: '12px',
+            fontWeight: '500'
+          }}>
+            On {name}
+          </span>
+        ))}
+      </div>
+    ) : null;
+  };
+
+  // Original-language pill for cards and the modal
+  const LanguageBadge = ({ code }: { code?: string }) => code ? (
+    <span style={{
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+      color: '#d1d5db',
+      padding: '2px 8px',
+      borderRadius: '999px',
+      fontSize: '11px',
+      fontWeight: 500,
+      whiteSpace: 'nowrap'
+    }}>
+      {languageName(code)}
+    </span>
+  ) : null;
+
+  // Add/remove toggle on the cards (compact) and in the modal's action row
+  const WatchlistToggle = ({ recommendation, compact = false }: { recommendation: Recommendation; compact?: boolean }) => {
+    const saved = savedWatchlistItem(recommendation) !== undefined;
+    return (
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          toggleWatchlist(recommendation);
+        }}
+        aria-pressed={saved}
+        style={{
+          backgroundColor: saved ? 'rgba(139, 92, 246, 0.25)' : 'rgba(255, 255, 255, 0.1)',
+          color: saved ? '#a78bfa' : '#ffffff',
+          border: compact ? '1px solid rgba(255, 255, 255, 0.15)' : 'none',
+          borderRadius: compact ? '999px' : '4px',
+          padding: compact ? '4px 10px' : '12px 24px',
+          fontSize: compact ? '12px' : '16px',
+          fontWeight: 600,
+          cursor: 'pointer',
+          whiteSpace: 'nowrap'
+        }}
+      >
+        {saved ? '✓ On watchlist' : '+ Watchlist'}
+      </button>
+    );
+  };
+
+  // "Seen it" toggle next to the watchlist one; seen titles are never recommended again
+  const SeenToggle = ({ recommendation, compact = false }: { recommendation: Recommendation; compact?: boolean }) => {
+    const seen = isSeen(recommendation);
+    return (
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          toggleSeen(recommendation);
+        }}
+        aria-pressed={seen}
+        style={{
+          backgroundColor: seen ? 'rgba(16, 185, 129, 0.2)' : 'rgba(255, 255, 255, 0.1)',
+          color: seen ? '#6ee7b7' : '#ffffff',
+          border: compact ? '1px solid rgba(255, 255, 255, 0.15)' : 'none',
+          borderRadius: compact ? '999px' : '4px',
+          padding: compact ? '4px 10px' : '12px 24px',
+          fontSize: compact ? '12px' : '16px',
+          fontWeight: 600,
+          cursor: 'pointer',
+          whiteSpace: 'nowrap'
+        }}
+      >
+        {seen ? '✓ Seen' : 'Seen it'}
+      </button>
+    );
+  };
+
+  // Thumbs up/down pair on each result card
+  const ReactionButtons = ({ recommendation }: { recommendation: Recommendation }) => {
+    const reaction = reactionTo(recommendation);
+    const thumbStyle = (active: boolean) => ({
+      backgroundColor: active ? 'rgba(139, 92, 246, 0.3)' : 'rgba(255, 255, 255, 0.1)',
+      border: '1px solid rgba(255, 255, 255, 0.15)',
+      borderRadius: '999px',
+      padding: '4px 8px',
+      fontSize: '12px',
+      cursor: 'pointer',
+      opacity: reaction && !active ? 0.5 : 1
+    });
+    return (
+      <>
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            react(recommendation, true);
+          }}
+          aria-label={`More like ${recommendation.title}`}
+          aria-pressed={reaction?.liked === true}
+          style={thumbStyle(reaction?.liked === true)}
+        >
+          👍
+        </button>
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            react(recommendation, false);
+          }}
+          aria-label={`Less like ${recommendation.title}`}
+          aria-pressed={reaction?.liked === false}
+          style={thumbStyle(reaction?.liked === false)}
+        >
+          👎
+        </button>
+      </>
+    );
+  };
+
+  // Starts a run seeded with just this title, on cards (compact) and in the modal
+  const MoreLikeThisButton = ({ movie, compact = false }: { movie: MovieRef; compact?: boolean }) => {
+    const loading = pivotingFrom === formatMovie(movie);
+    return (
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          moreLikeThis(movie);
+        }}
+        disabled={isLoading}
+        style={{
+          backgroundColor: 'rgba(255, 255, 255, 0.1)',
+          color: '#ffffff',
+          border: compact ? '1px solid rgba(255, 255, 255, 0.15)' : 'none',
+          borderRadius: compact ? '999px' : '4px',
+          padding: compact ? '4px 10px' : '12px 24px',
+          fontSize: compact ? '12px' : '16px',
+          fontWeight: 600,
+          cursor: isLoading ? 'not-allowed' : 'pointer',
+          opacity: isLoading && !loading ? 0.5 : 1,
+          whiteSpace: 'nowrap'
+        }}
+      >
+        {loading ? 'Finding…' : 'More like this'}
+      </button>
+    );
+  };
+
+  // Breadcrumb of the lists "More like this" replaced; each one can be gone back to
+  const ResultTrail = ({ margin }: { margin: string }) => resultTrail.length > 0 || pivotSeed ? (
+    <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '6px', margin, fontSize: '13px', color: '#9ca3af' }}>
+      {resultTrail.map((snapshot, index) => (
+        <span key={index} style={{ display: 'inline-flex', alignItems: 'center', gap: '6px' }}>
+          <button
+            type="button"
+            onClick={() => backToResults(index)}
+            disabled={isLoading}
+            style={{
+              background: 'none',
+              border: 'none',
+              padding: 0,
+              color: '#a78bfa',
+              fontSize: '13px',
+              cursor: isLoading ? 'not-allowed' : 'pointer',
+              textDecoration: 'underline'
+            }}
+          >
+            {snapshot.seed ? `Like ${snapshot.seed.title}` : 'Your picks'}
+          </button>
+          <span>›</span>
+        </span>
+      ))}
+      <span style={{ color: '#ffffff' }}>{pivotSeed ? `Like ${formatMovie(pivotSeed)}` : 'Your picks'}</span>
+    </div>
+  ) : null;
+
+  // This session's ratings above the results; removing one stops it steering later batches
+  const RatedPicks = ({ margin }: { margin: string }) => reactions.length > 0 ? (
+    <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '6px', margin, fontSize: '13px', color: '#9ca3af' }}>
+      <span>Rated this session:</span>
+      {reactions.map(({ movie, liked }) => (
+        <span
+          key={formatMovie(movie)}
+          style={{
+            display: 'inline-flex',
+            alignItems: 'center',
+            gap: '4px',
+            backgroundColor: liked ? 'rgba(139, 92, 246, 0.2)' : 'rgba(239, 68, 68, 0.15)',
+            color: liked ? '#c4b5fd' : '#fca5a5',
+            padding: '2px 4px 2px 8px',
+            borderRadius: '999px'
+          }}
+        >
+          {liked ? '👍' : '👎'} {movie.title}
+          <button
+            type="button"
+            onClick={() => react(movie, liked)}
+            aria-label={`Clear rating for ${movie.title}`}
+            style={{ background: 'none', border: 'none', color: 'inherit', cursor: 'pointer', padding: '0 4px', fontSize: '13px' }}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+    </div>
+  ) : null;
+
+  // One button per export format for a list
+  const ExportButtons = ({ listName, movies: movieList, margin = '0' }: {
+    listName: string;
+    movies: (MovieRef & { director?: string })[];
+    margin?: string;
+  }) => movieList.length > 0 ? (
+    <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '6px', margin, fontSize: '13px', color: '#9ca3af' }}>
+      <span>{exportingList === listName ? 'Preparing export…' : 'Export:'}</span>
+      {EXPORT_FORMATS.map(format => (
+        <button
+          key={format}
+          type="button"
+          onClick={() => exportList(listName, movieList, format)}
+          disabled={exportingList !== null}
+          style={{
+            background: 'none',
+            border: '1px solid rgba(255, 255, 255, 0.2)',
+            borderRadius: '999px',
+            color: '#d1d5db',
+            padding: '2px 10px',
+            fontSize: '12px',
+            cursor: exportingList !== null ? 'not-allowed' : 'pointer'
+          }}
+        >
+          {EXPORT_FORMAT_LABELS[format]}
+        </button>
+      ))}
+    </div>
+  ) : null;
+
+  // Share button for the results header, with the link once it's saved
+  const ShareResults = ({ margin }: { margin: string }) => (
+    <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '8px', margin, fontSize: '13px' }}>
+      <button
+        type="button"
+        onClick={shareResults}
+        disabled={isSharing || recommendationList.length === 0}
+        style={{
+          background: 'none',
+          border: '1px solid rgba(139, 92, 246, 0.5)',
+          borderRadius: '999px',
+          color: '#a78bfa',
+          padding: '4px 12px',
+          fontSize: '13px',
+          cursor: isSharing ? 'not-allowed' : 'pointer'
+        }}
+      >
+        {isSharing ? 'Saving…' : 'Share these picks'}
+      </button>
+      {shareUrl && (
+        <span style={{ color: '#9ca3af', wordBreak: 'break-all' }}>
+          {shareCopied ? 'Link copied: ' : 'Share this link: '}
+          <a href={shareUrl} target="_blank" rel="noopener noreferrer" style={{ color: '#a78bfa' }}>{shareUrl}</a>
+        </span>
+      )}
+    </div>
+  );
+
+  const listButtonStyle = {
+    backgroundColor: 'rgba(24, 24, 24, 0.9)',
+    color: '#ffffff',
+    border: '1px solid rgba(139, 92, 246, 0.5)',
+    borderRadius: '999px',
+    padding: '8px 14px',
+    fontSize: '14px',
+    fontWeight: 600,
+    cursor: 'pointer'
+  };
+
+  // Fixed corner buttons that open the watchlist and seen-list views
+  const ListButtons = () => (
+    <div style={{
+      position: 'fixed',
+      top: isMobile ? '12px' : '24px',
+      right: isMobile ? '12px' : '24px',
+      zIndex: 900,
+      display: 'flex',
+      gap: '8px'
+    }}>
+      <button type="button" onClick={() => setShowingSeenList(true)} style={listButtonStyle}>
+        Seen ({seenMovies.length})
+      </button>
+      <button type="button" onClick={openWatchlist} style={listButtonStyle}>
+        Watchlist ({watchlist.length})
+      </button>
+    </div>
+  );
+
+  // Titles marked seen, plus bulk entry for ones watched elsewhere. A render
+  // function so the textarea keeps focus across renders.
+  const renderSeenList = () => showingSeenList ? (
+    <div
+      onClick={() => setShowingSeenList(false)}
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.85)',
+        zIndex: 1100,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: isMobile ? '12px' : '40px'
+      }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          backgroundColor: '#181818',
+          borderRadius: '12px',
+          width: '100%',
+          maxWidth: '640px',
+          maxHeight: '85vh',
+          overflowY: 'auto',
+          padding: isMobile ? '16px' : '24px',
+          color: '#ffffff'
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '8px' }}>
+          <h2 style={{ fontSize: '22px', fontWeight: 'bold', margin: 0 }}>Already Seen</h2>
+          <button
+            type="button"
+            onClick={() => setShowingSeenList(false)}
+            aria-label="Close seen list"
+            style={{ background: 'none', border: 'none', color: '#9ca3af', fontSize: '24px', cursor: 'pointer' }}
+          >
+            ×
+          </button>
+        </div>
+        <p style={{ fontSize: '13px', color: '#9ca3af', margin: '0 0 16px 0' }}>
+          These are left out of every recommendation.
+        </p>
+
+        <div style={{ marginBottom: '16px', fontSize: '13px', color: '#9ca3af' }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap', fontSize: '14px', fontWeight: 600, color: '#ffffff', marginBottom: '4px' }}>
+            Import from Letterboxd or IMDb
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              disabled={importingRatings}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importRatings(file);
+                e.target.value = '';
+              }}
+              style={{ fontSize: '13px', color: '#9ca3af' }}
+            />
+          </label>
+          <div style={{ lineHeight: '1.4' }}>
+            Upload ratings.csv or watched.csv from a Letterboxd export, or your IMDb ratings CSV. Everything in it is marked seen; titles you rated 4★ (8/10) or higher also become seeds.
+          </div>
+          {importingRatings && (
+            <div style={{ color: '#a78bfa', marginTop: '6px' }}>Matching titles on TMDB…</div>
+          )}
+          {importError && (
+            <div style={{ color: '#fca5a5', marginTop: '6px' }}>{importError}</div>
+          )}
+          {importReport && (
+            <div style={{ color: '#d1d5db', marginTop: '6px', lineHeight: '1.4' }}>
+              Marked {importReport.watched.length} title{importReport.watched.length === 1 ? '' : 's'} seen and added {importReport.seeds.length} seed{importReport.seeds.length === 1 ? '' : 's'}.
+              {importReport.skipped > 0 && ` The oldest ${importReport.skipped} weren't looked up on TMDB, so they're matched by title only.`}
+              {importReport.unmatched.length > 0 && (
+                <div style={{ color: '#fbbf24', marginTop: '4px' }}>
+                  Couldn&apos;t match on TMDB (kept by title): {importReport.unmatched.slice(0, 20).join(', ')}
+                  {importReport.unmatched.length > 20 && ` and ${importReport.unmatched.length - 20} more`}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <textarea
+          value={seenInput}
+          onChange={(e) => setSeenInput(e.target.value)}
+          placeholder="Add titles you've seen, separated by commas (e.g. The Shawshank Redemption, Heat (1995))"
+          rows={3}
+          style={{ ...constraintInputStyle, width: '100%', fontSize: '14px', padding: '8px', resize: 'vertical', boxSizing: 'border-box' }}
+        />
+        <button
+          type="button"
+          onClick={addTypedSeenMovies}
+          disabled={addingSeen || !seenInput.trim()}
+          style={{
+            marginTop: '8px',
+            backgroundColor: '#8b5cf6',
+            color: '#ffffff',
+            border: 'none',
+            borderRadius: '6px',
+            padding: '6px 12px',
+            fontSize: '14px',
+            cursor: addingSeen || !seenInput.trim() ? 'not-allowed' : 'pointer',
+            opacity: addingSeen || !seenInput.trim() ? 0.5 : 1
+          }}
+        >
+          {addingSeen ? 'Looking up titles…' : 'Add'}
+        </button>
+
+        <ExportButtons listName="Already seen" movies={seenMovies} margin="16px 0 0 0" />
+
+        {seenMovies.length > 0 && (
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', marginTop: '16px' }}>
+            {seenMovies.map(movie => (
+              <span
+                key={movie.tmdbId ? `${movie.mediaType || 'movie'}:${movie.tmdbId}` : formatMovie(movie)}
+                style={{
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                  backgroundColor: 'rgba(255, 255, 255, 0.08)',
+                  color: '#d1d5db',
+                  padding: '4px 6px 4px 10px',
+                  borderRadius: '999px',
+                  fontSize: '13px'
+                }}
+              >
+                {formatMovie(movie)}
+                <button
+                  type="button"
+                  onClick={() => removeSeenMovie(movie)}
+                  aria-label={`Remove ${movie.title} from the seen list`}
+                  style={{ background: 'none', border: 'none', color: '#9ca3af', cursor: 'pointer', padding: '0 4px', fontSize: '14px' }}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  ) : null;
+
+  // Saved titles with where each can be watched now. A render function rather
+  // than a component so the sync-code input keeps focus across renders.
+  const renderWatchlist = () => showingWatchlist ? (
+    <div
+      onClick={() => setShowingWatchlist(false)}
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.85)',
+        zIndex: 1100,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: isMobile ? '12px' : '40px'
+      }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          backgroundColor: '#181818',
+          borderRadius: '12px',
+          width: '100%',
+          maxWidth: '640px',
+          maxHeight: '85vh',
+          overflowY: 'auto',
+          padding: isMobile ? '16px' : '24px',
+          color: '#ffffff'
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '8px' }}>
+          <h2 style={{ fontSize: '22px', fontWeight: 'bold', margin: 0 }}>Your Watchlist</h2>
+          <button
+            type="button"
+            onClick={() => setShowingWatchlist(false)}
+            aria-label="Close watchlist"
+            style={{ background: 'none', border: 'none', color: '#9ca3af', fontSize: '24px', cursor: 'pointer' }}
+          >
+            ×
+          </button>
+        </div>
+        <p style={{ fontSize: '13px', color: '#9ca3af', margin: '0 0 16px 0' }}>
+          {checkingWatchlist
+            ? `Checking where these can be watched in ${WATCH_REGION_NAMES[watchRegion]}…`
+            : `Availability in ${WATCH_REGION_NAMES[watchRegion]}${selectedServices.length > 0 ? `, matched against ${selectedServices.join(', ')}` : ''}`}
+        </p>
+
+        {watchlist.length === 0 ? (
+          <p style={{ color: '#9ca3af', fontSize: '15px', textAlign: 'center', padding: '24px 0' }}>
+            Nothing saved yet. Use &ldquo;+ Watchlist&rdquo; on any pick to keep it here.
+          </p>
+        ) : (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            {watchlist.map(item => {
+              const available = item.region === watchRegion && movieMatchesServices(item.availability, selectedServices, watchRegion, availabilityTypes);
+              return (
+                <div key={watchlistKey(item)} style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+                  {item.posterUrl ? (
+                    <Image
+                      src={item.posterUrl}
+                      alt={item.title}
+                      width={46}
+                      height={69}
+                      className="object-cover"
+                      style={{ borderRadius: '4px', flexShrink: 0 }}
+                    />
+                  ) : (
+                    <div style={{ width: '46px', height: '69px', borderRadius: '4px', backgroundColor: 'rgba(255, 255, 255, 0.1)', flexShrink: 0 }} />
+                  )}
+                  <div style={{ flex: 1, minWidth: 0 }}>
+                    <div style={{ fontSize: '15px', fontWeight: 600 }}>
+                      {item.title}
+                      <span style={{ color: '#9ca3af', fontWeight: 400 }}>
+                        {item.year ? ` (${item.year})` : ''}
+                        {item.mediaType === 'tv' && ' · Series'}
+                      </span>
+                    </div>
+                    <div style={{ fontSize: '13px', color: available ? '#a78bfa' : '#9ca3af', marginTop: '4px' }}>
+                      {watchlistStatus(item)}
+                    </div>
+                  </div>
+                  {!isMobile && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setShowingWatchlist(false);
+                        fetchModalData(item);
+                        setModalMovie(item);
+                      }}
+                      style={{ background: 'none', border: '1px solid rgba(255, 255, 255, 0.2)', borderRadius: '6px', color: '#ffffff', padding: '6px 10px', fontSize: '13px', cursor: 'pointer' }}
+                    >
+                      Details
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => removeFromWatchlist(item)}
+                    aria-label={`Remove ${item.title} from the watchlist`}
+                    style={{ background: 'none', border: 'none', color: '#9ca3af', fontSize: '13px', cursor: 'pointer', padding: '6px' }}
+                  >
+                    Remove
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <ExportButtons listName="Watchlist" movies={watchlist} margin="16px 0 0 0" />
+
+        <div style={{ borderTop: '1px solid rgba(255, 255, 255, 0.1)', marginTop: '20px', paddingTop: '16px', fontSize: '13px', color: '#9ca3af' }}>
+          {watchlistSynced ? (
+            <>
+              <div style={{ marginBottom: '8px' }}>
+                Sync code: <code style={{ color: '#ffffff', userSelect: 'all' }}>{watchlistId}</code>
+              </div>
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <input
+                  type="text"
+                  value={syncCodeInput}
+                  onChange={(e) => setSyncCodeInput(e.target.value)}
+                  placeholder="Code from another device"
+                  style={{ ...constraintInputStyle, flex: 1, fontSize: '14px', padding: '6px 8px' }}
+                />
+                <button
+                  type="button"
+                  onClick={applySyncCode}
+                  disabled={!isWatchlistId(syncCodeInput.trim())}
+                  style={{
+                    backgroundColor: '#8b5cf6',
+                    color: '#ffffff',
+                    border: 'none',
+                    borderRadius: '6px',
+                    padding: '6px 12px',
+                    fontSize: '14px',
+                    cursor: isWatchlistId(syncCodeInput.trim()) ? 'pointer' : 'not-allowed',
+                    opacity: isWatchlistId(syncCodeInput.trim()) ? 1 : 0.5
+                  }}
+                >
+                  Use
+                </button>
+              </div>
+            </>
+          ) : (
+            'Saved in this browser only.'
+          )}
+        </div>
+      </div>
+    </div>
+  ) : null;
+
+  // Picked seed chips plus the autocomplete list for the seed input above them
+  const SeedChips = ({ marginBottom = '0' }: { marginBottom?: string }) => (seedChips.length > 0 || suggestions.length > 0) ? (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', textAlign: 'left', marginBottom }}>
+      {seedChips.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+          {seedChips.map(chip => (
+            <span
+              key={`${chip.mediaType || 'movie'}:${chip.tmdbId}`}
+              style={{
+                display: 'inline-flex',
+                alignItems: 'center',
+                gap: '6px',
+                backgroundColor: 'rgba(139, 92, 246, 0.3)',
+                color: '#ffffff',
+                padding: '4px 6px 4px 12px',
+                borderRadius: '999px',
+                fontSize: '13px'
+              }}
+            >
+              {formatMovie(chip)}{chip.mediaType === 'tv' ? ' · Series' : ''}
+              <button
+                type="button"
+                onClick={() => removeSeedChip(chip)}
+                aria-label={`Remove ${chip.title}`}
+                style={{
+                  background: 'none',
+                  border: 'none',
+                  color: '#d1d5db',
+                  cursor: 'pointer',
+                  fontSize: '14px',
+                  lineHeight: 1,
+                  padding: '0 4px'
+                }}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      {suggestions.length > 0 && (
+        <div role="listbox" aria-label="Title suggestions" style={{
+          backgroundColor: '#1f1f1f',
+          borderRadius: '12px',
+          overflow: 'hidden',
+          boxShadow: '0 10px 25px rgba(0, 0, 0, 0.3)'
+        }}>
+          {suggestions.map(suggestion => (
+            <button
+              key={`${suggestion.mediaType || 'movie'}:${suggestion.tmdbId}`}
+              type="button"
+              role="option"
+              aria-selected={false}
+              onClick={() => addSeedChip(suggestion)}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '10px',
+                width: '100%',
+                padding: '8px 12px',
+                background: 'none',
+                border: 'none',
+                color: '#ffffff',
+                fontSize: '14px',
+                textAlign: 'left',
+                cursor: 'pointer'
+              }}
+            >
+              {suggestion.posterUrl ? (
+                <Image src={suggestion.posterUrl} alt="" width={28} height={42} style={{ borderRadius: '4px', objectFit: 'cover' }} />
+              ) : (
+                <span style={{ width: '28px', height: '42px', borderRadius: '4px', backgroundColor: 'rgba(255, 255, 255, 0.1)', flexShrink: 0 }} />
+              )}
+              <span>
+                {formatMovie(suggestion)}
+                {suggestion.mediaType === 'tv' && <span style={{ color: '#9ca3af' }}> · Series</span>}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  ) : null;
 
-  // Helper function to parse and normalize input movies
-  const parseInputMovies = (inputText: string): string[] => {
-    if (!inputText.trim()) return [];
-    
-    // Split by commas and clean up each movie
-    return inputText
-      .split(',')
-      .map(movie => movie.trim())
-      .filter(movie => movie.length > 0)
-      .map(movie => {
-        // Try to normalize format to "Title (Year)" if possible
-        // This helps with matching against recommendations
-        const normalized = movie.trim();
-        
-        // If it already has a year in parentheses, return as-is
-        if (/\(\d{4}\)/.test(normalized)) {
-          return normalized;
-        }
-        
-        // Otherwise return the cleaned title
-        return normalized;
-      });
-  };
+  // Switches the seed input between the solo list and the group editor
+  const renderGroupToggle = () => (
+    <button
+      type="button"
+      onClick={() => setGroupMode(v => !v)}
+      style={{
+        alignSelf: 'flex-start',
+        background: 'none',
+        border: 'none',
+        color: '#a78bfa',
+        fontSize: '14px',
+        fontWeight: 500,
+        cursor: 'pointer',
+        padding: 0
+      }}
+    >
+      {groupMode ? '← Just me' : '👥 Group movie night'}
+    </button>
+  );
 
-  // Applied after backfill replacements are merged in, so it catches sequel
-  // collisions regardless of whether they came from the AI's initial picks or a replacement.
-  const mergedRecommendationList = parseRecommendations(recommendations).map(movie => replacedMovies[movie] || movie);
-  const recommendationList = mergedRecommendationList.filter((movie, idx) =>
-    !mergedRecommendationList.slice(0, idx).some(earlier => isLikelySequelPair(earlier, movie))
+  // One card per participant: name, favorites and services. A plain render
+  // function rather than a component, so typing doesn't remount the inputs.
+  const renderGroupEditor = () => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '12px', textAlign: 'left' }}>
+      {participants.map((participant, index) => (
+        <div key={index} style={{
+          backgroundColor: 'rgba(255, 255, 255, 0.06)',
+          borderRadius: '12px',
+          padding: '12px',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '8px'
+        }}>
+          <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+            <input
+              type="text"
+              value={participant.name}
+              onChange={(e) => updateParticipant(index, { name: e.target.value })}
+              placeholder={`Person ${index + 1}`}
+              aria-label={`Name of person ${index + 1}`}
+              maxLength={40}
+              style={{
+                flex: 1,
+                padding: '8px 12px',
+                backgroundColor: 'rgba(255, 255, 255, 0.1)',
+                border: 'none',
+                borderRadius: '8px',
+                color: '#ffffff',
+                fontSize: '14px',
+                fontWeight: 600,
+                outline: 'none'
+              }}
+            />
+            {participants.length > 2 && (
+              <button
+                type="button"
+                onClick={() => setParticipants(prev => prev.filter((_, i) => i !== index))}
+                aria-label={`Remove ${participant.name || `person ${index + 1}`}`}
+                style={{ background: 'none', border: 'none', color: '#9ca3af', fontSize: '18px', cursor: 'pointer' }}
+              >
+                ×
+              </button>
+            )}
+          </div>
+          <textarea
+            value={participant.movies}
+            onChange={(e) => updateParticipant(index, { movies: e.target.value })}
+            placeholder="Their favorites, separated by commas"
+            aria-label={`Favorites of ${participant.name || `person ${index + 1}`}`}
+            style={{
+              width: '100%',
+              padding: '10px 12px',
+              backgroundColor: 'rgba(255, 255, 255, 0.1)',
+              border: 'none',
+              borderRadius: '8px',
+              color: '#ffffff',
+              fontSize: '14px',
+              minHeight: '56px',
+              resize: 'none',
+              outline: 'none',
+              boxSizing: 'border-box'
+            }}
+          />
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+            {streamingProvidersFor(watchRegion).map(provider => {
+              const selected = participant.services.includes(provider.name);
+              return (
+                <button
+                  key={provider.name}
+                  type="button"
+                  onClick={() => toggleParticipantService(index, provider.name)}
+                  aria-pressed={selected}
+                  style={{
+                    backgroundColor: selected ? '#8b5cf6' : 'rgba(255, 255, 255, 0.08)',
+                    color: '#ffffff',
+                    border: 'none',
+                    borderRadius: '999px',
+                    padding: '4px 10px',
+                    fontSize: '12px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  {provider.name}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px', alignItems: 'center', justifyContent: 'space-between' }}>
+        {participants.length < MAX_PARTICIPANTS && (
+          <button
+            type="button"
+            onClick={() => setParticipants(prev => [...prev, EMPTY_PARTICIPANT])}
+            style={{ background: 'none', border: 'none', color: '#a78bfa', fontSize: '14px', cursor: 'pointer', padding: 0 }}
+          >
+            + Add person
+          </button>
+        )}
+        <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px', color: '#d1d5db' }}>
+          Services
+          <select
+            value={groupServiceMode}
+            onChange={(e) => setGroupServiceMode(toGroupServiceMode(e.target.value))}
+            style={constraintInputStyle}
+          >
+            <option value="union">On anyone&apos;s services</option>
+            <option value="intersection">On services everyone has</option>
+          </select>
+        </label>
+      </div>
+    </div>
   );
 
   // Small filter button + popover, reused next to every "get recommendations" button
@@ -440,7 +2301,7 @@ export default function Home() {
         onClick={() => setShowFilterMenu(v => !v)}
         aria-label="Filter by streaming service"
         style={{
-          backgroundColor: (selectedServices.length > 0 || preferPopular || useOriginalModel) ? '#8b5cf6' : 'rgba(255, 255, 255, 0.1)',
+          backgroundColor: (filterCount > 0) ? '#8b5cf6' : 'rgba(255, 255, 255, 0.1)',
           color: '#ffffff',
           border: 'none',
           borderRadius: compact ? '12px' : '50%',
@@ -456,7 +2317,7 @@ export default function Home() {
         <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
           <polygon points="4 4 20 4 14 12.5 14 19 10 21 10 12.5 4 4" />
         </svg>
-        {(selectedServices.length + (preferPopular ? 1 : 0) + (useOriginalModel ? 1 : 0)) > 0 && (
+        {filterCount > 0 && (
           <span style={{
             position: 'absolute',
             top: '-4px',
@@ -473,7 +2334,7 @@ export default function Home() {
             justifyContent: 'center',
             padding: '0 3px'
           }}>
-            {selectedServices.length + (preferPopular ? 1 : 0) + (useOriginalModel ? 1 : 0)}
+            {filterCount}
           </span>
         )}
       </button>
@@ -492,13 +2353,39 @@ export default function Home() {
             borderRadius: '12px',
             padding: '12px',
             width: '220px',
+            maxHeight: '70vh',
+            overflowY: 'auto',
             zIndex: 50,
             boxShadow: '0 10px 30px rgba(0, 0, 0, 0.5)'
           }}>
+            <label style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px', fontSize: '13px', fontWeight: 600, color: '#9ca3af', marginBottom: '8px' }}>
+              Watching in
+              <select
+                value={watchRegion}
+                onChange={e => changeWatchRegion(toWatchRegion(e.target.value))}
+                style={{ backgroundColor: '#262626', color: '#ffffff', border: '1px solid rgba(255, 255, 255, 0.15)', borderRadius: '6px', padding: '4px 6px', fontSize: '13px' }}
+              >
+                {WATCH_REGIONS.map(region => (
+                  <option key={region} value={region}>{WATCH_REGION_NAMES[region]}</option>
+                ))}
+              </select>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px', fontSize: '13px', fontWeight: 600, color: '#9ca3af', marginBottom: '8px' }}>
+              Recommend
+              <select
+                value={mediaChoice}
+                onChange={e => setMediaChoice(toMediaChoice(e.target.value))}
+                style={{ backgroundColor: '#262626', color: '#ffffff', border: '1px solid rgba(255, 255, 255, 0.15)', borderRadius: '6px', padding: '4px 6px', fontSize: '13px' }}
+              >
+                {MEDIA_CHOICES.map(choice => (
+                  <option key={choice} value={choice}>{MEDIA_CHOICE_LABELS[choice]}</option>
+                ))}
+              </select>
+            </label>
             <div style={{ fontSize: '13px', fontWeight: 600, color: '#9ca3af', marginBottom: '8px' }}>
               Filter by streaming service
             </div>
-            {STREAMING_PROVIDERS.map(p => (
+            {streamingProvidersFor(watchRegion).map(p => (
               <label key={p.name} style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '6px 4px', fontSize: '14px', color: '#ffffff', cursor: 'pointer' }}>
                 <input
                   type="checkbox"
@@ -510,6 +2397,115 @@ export default function Home() {
               </label>
             ))}
             <div style={{ borderTop: '1px solid rgba(255, 255, 255, 0.1)', margin: '8px 0' }} />
+            <div style={{ fontSize: '13px', fontWeight: 600, color: '#9ca3af', marginBottom: '8px' }}>
+              Ways to watch
+            </div>
+            {AVAILABILITY_TYPES.map(type => (
+              <label key={type} style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '6px 4px', fontSize: '14px', color: '#ffffff', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={availabilityTypes.includes(type)}
+                  onChange={() => toggleAvailabilityType(type)}
+                  style={{ accentColor: '#8b5cf6', width: '16px', height: '16px' }}
+                />
+                {AVAILABILITY_TYPE_LABELS[type]}
+              </label>
+            ))}
+            <div style={{ borderTop: '1px solid rgba(255, 255, 255, 0.1)', margin: '8px 0' }} />
+            <div style={{ fontSize: '13px', fontWeight: 600, color: '#9ca3af', marginBottom: '8px' }}>
+              Must be
+            </div>
+            <label style={constraintRowStyle}>
+              Runtime
+              <select
+                value={constraints.maxRuntime ?? ''}
+                onChange={e => changeConstraint('maxRuntime', e.target.value)}
+                style={constraintInputStyle}
+              >
+                <option value="">Any</option>
+                {RUNTIME_LIMITS.map(minutes => (
+                  <option key={minutes} value={minutes}>Under {Math.floor(minutes / 60)}h{minutes % 60 ? ` ${minutes % 60}m` : ''}</option>
+                ))}
+              </select>
+            </label>
+            <label style={constraintRowStyle}>
+              Released
+              <span style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                <input
+                  type="number"
+                  placeholder="from"
+                  value={constraints.minYear ?? ''}
+                  onChange={e => changeConstraint('minYear', e.target.value)}
+                  style={{ ...constraintInputStyle, width: '56px' }}
+                />
+                <input
+                  type="number"
+                  placeholder="to"
+                  value={constraints.maxYear ?? ''}
+                  onChange={e => changeConstraint('maxYear', e.target.value)}
+                  style={{ ...constraintInputStyle, width: '56px' }}
+                />
+              </span>
+            </label>
+            <label style={constraintRowStyle}>
+              Rating
+              <select
+                value={constraints.minRating ?? ''}
+                onChange={e => changeConstraint('minRating', e.target.value)}
+                style={constraintInputStyle}
+              >
+                <option value="">Any</option>
+                {RATING_MINIMUMS.map(rating => (
+                  <option key={rating} value={rating}>{rating}+</option>
+                ))}
+              </select>
+            </label>
+            <label style={constraintRowStyle}>
+              Certified
+              <select
+                value={constraints.maxCertification ?? ''}
+                onChange={e => changeConstraint('maxCertification', e.target.value)}
+                style={constraintInputStyle}
+              >
+                <option value="">Any</option>
+                {CERTIFICATIONS_BY_REGION[watchRegion].map(certification => (
+                  <option key={certification} value={certification}>{certification} or lower</option>
+                ))}
+              </select>
+            </label>
+            <div style={{ borderTop: '1px solid rgba(255, 255, 255, 0.1)', margin: '8px 0' }} />
+            <div style={{ fontSize: '13px', fontWeight: 600, color: '#9ca3af', marginBottom: '4px' }}>
+              Original language
+            </div>
+            <div style={{ fontSize: '11px', color: '#9ca3af', marginBottom: '8px' }}>
+              Tap once for only, twice for never
+            </div>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+              {LANGUAGE_CODES.map(code => {
+                const included = languages.include.includes(code);
+                const excluded = languages.exclude.includes(code);
+                return (
+                  <button
+                    key={code}
+                    type="button"
+                    onClick={() => cycleLanguage(code)}
+                    style={{
+                      backgroundColor: included ? 'rgba(139, 92, 246, 0.3)' : excluded ? 'rgba(239, 68, 68, 0.2)' : 'rgba(255, 255, 255, 0.08)',
+                      color: included ? '#c4b5fd' : excluded ? '#fca5a5' : '#d1d5db',
+                      border: 'none',
+                      borderRadius: '999px',
+                      padding: '4px 10px',
+                      fontSize: '12px',
+                      cursor: 'pointer',
+                      textDecoration: excluded ? 'line-through' : 'none'
+                    }}
+                  >
+                    {languageName(code)}
+                  </button>
+                );
+              })}
+            </div>
+            <div style={{ borderTop: '1px solid rgba(255, 255, 255, 0.1)', margin: '8px 0' }} />
             <label style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '6px 4px', fontSize: '14px', color: '#ffffff', cursor: 'pointer' }}>
               <input
                 type="checkbox"
@@ -533,10 +2529,24 @@ export default function Home() {
                 </span>
               </span>
             </label>
-            {(selectedServices.length > 0 || preferPopular || useOriginalModel) && (
+            <label style={{ display: 'flex', alignItems: 'flex-start', gap: '8px', padding: '6px 4px', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={useTmdbEngine}
+                onChange={() => setUseTmdbEngine(v => !v)}
+                style={{ accentColor: '#8b5cf6', width: '16px', height: '16px', marginTop: '2px' }}
+              />
+              <span>
+                <span style={{ fontSize: '14px', color: '#ffffff', display: 'block' }}>TMDB Picks Only</span>
+                <span style={{ fontSize: '11px', color: '#9ca3af', display: 'block', lineHeight: '1.4' }}>
+                  Skip the AI and rank TMDB&apos;s related movies by genre and rating.
+                </span>
+              </span>
+            </label>
+            {(filterCount > 0) && (
               <button
                 type="button"
-                onClick={() => { setSelectedServices([]); setPreferPopular(false); setUseOriginalModel(false); }}
+                onClick={() => { setSelectedServices([]); setAvailabilityTypes(DEFAULT_AVAILABILITY_TYPES); setPreferPopular(false); setUseOriginalModel(false); setUseTmdbEngine(false); setMediaChoice('movie'); setConstraints({}); setLanguages(NO_LANGUAGE_PREFERENCES); }}
                 style={{ marginTop: '8px', background: 'none', border: 'none', color: '#8b5cf6', fontSize: '13px', cursor: 'pointer', padding: 0 }}
               >
                 Clear filters
@@ -573,7 +2583,7 @@ export default function Home() {
         padding: '20px 16px',
         fontFamily: 'system-ui, -apple-system, sans-serif'
       }}>
-        {!recommendations ? (
+        {!recommendations?.length ? (
           <>
             <div style={{ textAlign: 'center', marginBottom: '48px' }}>
               <h1 style={{ fontSize: '48px', fontWeight: 'bold', background: 'linear-gradient(135deg, #8b5cf6 0%, #a78bfa 50%,rgb(148, 108, 157) 100%)',WebkitBackgroundClip: 'text',
@@ -624,11 +2634,11 @@ export default function Home() {
                   cursor: 'pointer'
                 }}
               >
-                Trending This Week
+                Trending
               </button>
             </div>
 
-            {showingMobileForm && !recommendations && (
+            {showingMobileForm && !recommendations?.length && (
               <>
                 <div style={{ 
                   backgroundColor: 'rgba(255, 255, 255, 0.1)', 
@@ -644,21 +2654,64 @@ export default function Home() {
                     List movies you love, separated by commas. Our AI will find similar films you might enjoy&apos;!
                   </p>
                   <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
-                    <textarea
-                      value={movies}
-                      onChange={(e) => setMovies(e.target.value)}
-                      onKeyDown={handleKeyPress}
-                      placeholder="e.g., The Dark Knight, Inception, Pulp Fiction"
+                    {renderGroupToggle()}
+                    {groupMode ? renderGroupEditor() : (
+                      <>
+                        <textarea
+                          value={movies}
+                          onChange={(e) => setMovies(e.target.value)}
+                          onKeyDown={handleKeyPress}
+                          placeholder="e.g., The Dark Knight, Inception, Pulp Fiction"
+                          style={{
+                            width: '100%',
+                            padding: '16px',
+                            backgroundColor: 'rgba(255, 255, 255, 0.1)',
+                            border: 'none',
+                            borderRadius: '12px',
+                            color: '#ffffff',
+                            fontSize: '16px',
+                            minHeight: '80px',
+                            resize: 'none',
+                            outline: 'none',
+                            boxSizing: 'border-box'
+                          }}
+                        />
+                        <SeedChips />
+                      </>
+                    )}
+                    <input
+                      type="text"
+                      maxLength={MOOD_MAX_LENGTH}
+                      value={mood}
+                      onChange={(e) => setMood(e.target.value)}
+                      placeholder="Mood (optional), e.g. cozy rainy Sunday, nothing too sad"
+                      aria-label="Your mood"
                       style={{
                         width: '100%',
-                        padding: '16px',
-                        backgroundColor: 'rgba(255, 255, 255, 0.1)',
+                        padding: '12px 16px',
+                        backgroundColor: 'rgba(255, 255, 255, 0.06)',
                         border: 'none',
                         borderRadius: '12px',
                         color: '#ffffff',
-                        fontSize: '16px',
-                        minHeight: '80px',
-                        resize: 'none',
+                        fontSize: '14px',
+                        outline: 'none',
+                        boxSizing: 'border-box'
+                      }}
+                    />
+                    <input
+                      type="text"
+                      value={dislikedMovies}
+                      onChange={(e) => setDislikedMovies(e.target.value)}
+                      placeholder="Not in the mood for (optional), e.g., Transformers"
+                      aria-label="Movies you disliked"
+                      style={{
+                        width: '100%',
+                        padding: '12px 16px',
+                        backgroundColor: 'rgba(255, 255, 255, 0.06)',
+                        border: 'none',
+                        borderRadius: '12px',
+                        color: '#ffffff',
+                        fontSize: '14px',
                         outline: 'none',
                         boxSizing: 'border-box'
                       }}
@@ -697,15 +2750,54 @@ export default function Home() {
               }}>
                 <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '16px' }}>
                   <span style={{ fontSize: '20px' }}>📈</span>
-                  <h2 style={{ fontSize: '24px', fontWeight: 'bold' }}>Trending This Week</h2>
+                  <h2 style={{ fontSize: '24px', fontWeight: 'bold' }}>Trending {TRENDING_WINDOW_LABELS[trendingWindow]}</h2>
                 </div>
-                <p style={{ color: '#9ca3af', marginBottom: '24px', fontSize: '14px' }}>
-                  The most popular movies everyone&apos;s talking about
+                <p style={{ color: '#9ca3af', marginBottom: '16px', fontSize: '14px' }}>
+                  The most popular {mediaChoice === 'tv' ? 'series' : mediaChoice === 'both' ? 'movies and series' : 'movies'} everyone&apos;s talking about
+                  {isAvailabilityFilterActive(selectedServices, availabilityTypes) && ', limited to what you can watch'}
                 </p>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginBottom: '24px' }}>
+                  {(['day', 'week'] as const).map(option => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => setTrendingWindow(option)}
+                      style={{
+                        backgroundColor: trendingWindow === option ? '#8b5cf6' : 'rgba(255, 255, 255, 0.1)',
+                        color: trendingWindow === option ? '#ffffff' : '#9ca3af',
+                        padding: '8px 14px',
+                        borderRadius: '999px',
+                        border: 'none',
+                        fontSize: '14px',
+                        cursor: 'pointer'
+                      }}
+                    >
+                      {TRENDING_WINDOW_LABELS[option]}
+                    </button>
+                  ))}
+                  <select
+                    value={trendingGenre}
+                    onChange={e => setTrendingGenre(e.target.value)}
+                    aria-label="Trending genre"
+                    style={{
+                      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+                      color: '#ffffff',
+                      padding: '8px 12px',
+                      borderRadius: '999px',
+                      border: '1px solid rgba(255, 255, 255, 0.2)',
+                      fontSize: '14px'
+                    }}
+                  >
+                    <option value="" style={{ color: '#000000' }}>All genres</option>
+                    {Object.keys(TMDB_GENRE_IDS).map(genre => (
+                      <option key={genre} value={genre} style={{ color: '#000000' }}>{genre}</option>
+                    ))}
+                  </select>
+                </div>
                 <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
-                  {trendingMovies.slice(0, 10).map((movie, index) => (
+                  {trendingMovies.map((movie, index) => (
                     <div
-                      key={movie.id}
+                      key={`${movie.media_type || 'movie'}-${movie.id}`}
                       style={{
                         backgroundColor: 'rgba(255, 255, 255, 0.05)',
                         padding: '16px',
@@ -720,7 +2812,7 @@ export default function Home() {
                       <div style={{ flexShrink: 0 }}>
                         {movie.poster_path ? (
                           <a
-                            href={`https://www.themoviedb.org/movie/${movie.id}`}
+                            href={`https://www.themoviedb.org/${movie.media_type || 'movie'}/${movie.id}`}
                             target="_blank"
                             rel="noopener noreferrer"
                             style={{ display: 'block' }}
@@ -773,15 +2865,33 @@ export default function Home() {
                         <div style={{ marginBottom: '12px' }}>
                           <div style={{ fontSize: '14px', color: '#9ca3af', marginBottom: '4px' }}>
                             {new Date(movie.release_date).getFullYear() || 'N/A'}
+                            {movie.media_type === 'tv' && ' · Series'}
                           </div>
                           <div style={{ fontSize: '14px', color: '#fbbf24' }}>
                             ⭐ {movie.vote_average.toFixed(1)}
                           </div>
                         </div>
+                        <ServiceMatchBadges availability={movie.availability} />
+                        <div style={{ marginTop: '8px' }}>
+                          <MoreLikeThisButton
+                            movie={{
+                              title: movie.title,
+                              year: Number(movie.release_date?.slice(0, 4)) || undefined,
+                              tmdbId: movie.id,
+                              mediaType: movie.media_type,
+                            }}
+                            compact
+                          />
+                        </div>
                       </div>
                     </div>
                   ))}
                 </div>
+                <div ref={setTrendingEnd} style={{ textAlign: 'center', color: '#9ca3af', fontSize: '14px', paddingTop: '16px' }}>
+                  {loadingTrending
+                    ? 'Loading trending titles…'
+                    : trendingMovies.length === 0 && trendingPage > 0 && 'Nothing trending matches these filters'}
+                </div>
               </div>
             )}
             {/* Scroll Down Arrow - Always show before about section */}
@@ -883,21 +2993,64 @@ export default function Home() {
                 List movies you love, separated by commas. Our AI will find similar films you might enjoy!
               </p>
               <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
-                <textarea
-                  value={movies}
-                  onChange={(e) => setMovies(e.target.value)}
-                  onKeyDown={handleKeyPress}
-                  placeholder="e.g., The Dark Knight, Inception, Pulp Fiction"
+                {renderGroupToggle()}
+                {groupMode ? renderGroupEditor() : (
+                  <>
+                    <textarea
+                      value={movies}
+                      onChange={(e) => setMovies(e.target.value)}
+                      onKeyDown={handleKeyPress}
+                      placeholder="e.g., The Dark Knight, Inception, Pulp Fiction"
+                      style={{
+                        width: '100%',
+                        padding: '16px',
+                        backgroundColor: 'rgba(255, 255, 255, 0.1)',
+                        border: 'none',
+                        borderRadius: '12px',
+                        color: '#ffffff',
+                        fontSize: '16px',
+                        minHeight: '80px',
+                        resize: 'none',
+                        outline: 'none',
+                        boxSizing: 'border-box'
+                      }}
+                    />
+                    <SeedChips />
+                  </>
+                )}
+                <input
+                  type="text"
+                  maxLength={MOOD_MAX_LENGTH}
+                  value={mood}
+                  onChange={(e) => setMood(e.target.value)}
+                  placeholder="Mood (optional), e.g. cozy rainy Sunday, nothing too sad"
+                  aria-label="Your mood"
                   style={{
                     width: '100%',
-                    padding: '16px',
-                    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+                    padding: '12px 16px',
+                    backgroundColor: 'rgba(255, 255, 255, 0.06)',
                     border: 'none',
                     borderRadius: '12px',
                     color: '#ffffff',
-                    fontSize: '16px',
-                    minHeight: '80px',
-                    resize: 'none',
+                    fontSize: '14px',
+                    outline: 'none',
+                    boxSizing: 'border-box'
+                  }}
+                />
+                <input
+                  type="text"
+                  value={dislikedMovies}
+                  onChange={(e) => setDislikedMovies(e.target.value)}
+                  placeholder="Not in the mood for (optional), e.g., Transformers"
+                  aria-label="Movies you disliked"
+                  style={{
+                    width: '100%',
+                    padding: '12px 16px',
+                    backgroundColor: 'rgba(255, 255, 255, 0.06)',
+                    border: 'none',
+                    borderRadius: '12px',
+                    color: '#ffffff',
+                    fontSize: '14px',
                     outline: 'none',
                     boxSizing: 'border-box'
                   }}
@@ -935,8 +3088,24 @@ export default function Home() {
                 Matching results to your streaming services...
               </p>
             )}
+            {resultEngine === 'tmdb' && (
+              <p style={{ fontSize: '13px', color: '#9ca3af', margin: '0 0 12px 0' }}>
+                {engineNote}
+              </p>
+            )}
+            {unresolvedSeeds.length > 0 && (
+              <p style={{ fontSize: '13px', color: '#fbbf24', margin: '0 0 12px 0' }}>
+                {unresolvedSeedsNote}
+              </p>
+            )}
+            <ResultTrail margin="0 0 12px 0" />
+            <RatedPicks margin="0 0 12px 0" />
+            <ShareResults margin="0 0 12px 0" />
+            <ExportButtons listName="Toss the Remote picks" movies={recommendationList.map(withLoadedId)} margin="0 0 12px 0" />
             <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
-              {recommendationList.map((movie, index) => (
+              {recommendationList.map((recommendation, index) => {
+                const movie = formatMovie(recommendation);
+                return (
                 <div
                   key={index}
                   style={{
@@ -975,7 +3144,7 @@ export default function Home() {
           >
             <Image
                           src={mobilePosters[movie]}
-                          alt={descriptions[movie]?.title || movie}
+                          alt={descriptions[movie]?.title || recommendation.title}
                           width={80}
                           height={120}
                           className="object-cover"
@@ -990,12 +3159,12 @@ export default function Home() {
                   <div style={{ flex: 1, minWidth: 0, width: '100%' }}>
                     <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '8px' }}>
                       <h3 style={{ fontSize: '18px', fontWeight: '600', margin: 0 }}>
-                        {movie.split(' (')[0]}
+                        {recommendation.title}
                       </h3>
                       <button
                         onClick={() => {
                           if (!descriptions[movie]) {
-                            fetchDescription(movie);
+                            fetchDescription(recommendation);
                           } else {
                             setShowingDetails(prev => ({ ...prev, [movie]: !prev[movie] }));
                           }
@@ -1019,14 +3188,30 @@ export default function Home() {
                       </button>
                     </div>
                     <div style={{ marginBottom: '12px' }}>
-                      <div style={{ fontSize: '14px', color: '#9ca3af', marginBottom: '4px' }}>
-                        {movie.match(/\((\d{4})\)/) ? movie.match(/\((\d{4})\)/)![1] : ''}
+                      <div style={{ fontSize: '14px', color: '#9ca3af', marginBottom: '4px', display: 'flex', alignItems: 'center', gap: '8px' }}>
+                        <span>
+                          {recommendation.year}
+                          {recommendation.mediaType === 'tv' && ' · Series'}
+                        </span>
+                        <LanguageBadge code={descriptions[movie]?.original_language} />
                       </div>
                       <div style={{ fontSize: '14px', color: '#fbbf24' }}>
                         ⭐ {mobileRatings[movie] || (loadingMobilePosters[movie] ? 'Loading...' : 'N/A')}
                       </div>
+                      <div style={{ marginTop: '8px', display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+                        <WatchlistToggle recommendation={recommendation} compact />
+                        <SeenToggle recommendation={recommendation} compact />
+                        <ReactionButtons recommendation={recommendation} />
+                        <MoreLikeThisButton movie={withLoadedId(recommendation)} compact />
+                      </div>
                     </div>
 
+                    {recommendation.reason && (
+                      <div style={{ marginBottom: '12px' }}>
+                        <ReasonNote reason={recommendation.reason} />
+                      </div>
+                    )}
+
                     {showingDetails[movie] && (
                       <div style={{ 
                         marginTop: '16px', 
@@ -1054,7 +3239,7 @@ export default function Home() {
                             }}>
                               {descriptions[movie].description}
                             </div>
-                            {descriptions[movie].streaming && descriptions[movie].streaming!.length > 0 && (
+                            {((descriptions[movie].availability || descriptions[movie].streaming)?.length ?? 0) > 0 && (
                               <div style={{ width: '100%' }}>
                                 <h4 style={{ 
                                   fontSize: '15px', 
@@ -1064,28 +3249,7 @@ export default function Home() {
                                 }}>
                                   Where to Watch:
                                 </h4>
-                                <div style={{ 
-                                  display: 'flex', 
-                                  flexWrap: 'wrap', 
-                                  gap: '8px',
-                                  width: '100%'
-                                }}>
-                                  {descriptions[movie].streaming!.map((service, index) => (
-                                    <span 
-                                      key={index}
-                                      style={{
-                                        backgroundColor: 'rgba(139, 92, 246, 0.2)',
-                                        color: '#a78bfa',
-                                        padding: '4px 12px',
-                                        borderRadius: '20px',
-                                        fontSize: '12px',
-                                        fontWeight: '500'
-                                      }}
-                                    >
-                                      {service}
-                                    </span>
-                                  ))}
-                                </div>
+                                <AvailabilityBadges movie={descriptions[movie]} padding="4px 12px" borderRadius="20px" />
                               </div>
                             )}
                           </>
@@ -1094,7 +3258,8 @@ export default function Home() {
                     )}
                   </div>
                 </div>
-              ))}
+              );
+              })}
         </div>
             
             <div style={{ textAlign: 'center', marginTop: '32px', marginBottom: '60px' }}>
@@ -1120,6 +3285,9 @@ export default function Home() {
             </div>
           </div>
         )}
+        <ListButtons />
+        {renderWatchlist()}
+        {renderSeenList()}
       </div>
     );
   }
@@ -1127,8 +3295,9 @@ export default function Home() {
   // Netflix-style Modal Component
   const NetflixModal = () => {
     if (!modalMovie) return null;
+    const modalKey = formatMovie(modalMovie);
     
-    if (loadingModal[modalMovie]) {
+    if (loadingModal[modalKey]) {
       return (
         <div 
           style={{
@@ -1157,9 +3326,9 @@ export default function Home() {
       );
     }
     
-    if (!modalData[modalMovie]) return null;
+    if (!modalData[modalKey]) return null;
     
-    const movie = modalData[modalMovie];
+    const movie = modalData[modalKey];
     
     return (
       <div 
@@ -1240,7 +3409,7 @@ export default function Home() {
             }}
           >
             {/* Embedded Trailer Overlay */}
-            {showingTrailer[modalMovie] && movie.trailer && (
+            {showingTrailer[modalKey] && movie.trailer && (
               <div style={{
                 position: 'absolute',
                 top: 0,
@@ -1286,7 +3455,7 @@ export default function Home() {
                 marginBottom: '16px',
                 textShadow: '2px 2px 4px rgba(0,0,0,0.8)'
               }}>
-                {movie.title || modalMovie.split(' (')[0]}
+                {movie.title || modalMovie.title}
               </h1>
               
               <div style={{ display: 'flex', alignItems: 'center', gap: '16px', marginBottom: '20px' }}>
@@ -1307,11 +3476,18 @@ export default function Home() {
                   <span style={{ fontSize: '16px', color: '#d1d5db' }}>{movie.year}</span>
                 )}
                 
-                {movie.runtime && (
+                {movie.media_type === 'tv' ? (
+                  <span style={{ fontSize: '16px', color: '#d1d5db' }}>
+                    {formatSeasons(movie.seasons ?? undefined)}
+                    {movie.runtime ? ` · ${movie.runtime}m episodes` : ''}
+                  </span>
+                ) : movie.runtime && (
                   <span style={{ fontSize: '16px', color: '#d1d5db' }}>
                     {Math.floor(movie.runtime / 60)}h {movie.runtime % 60}m
                   </span>
                 )}
+
+                <LanguageBadge code={movie.original_language} />
               </div>
 
               <div style={{ display: 'flex', gap: '12px', marginBottom: '20px' }}>
@@ -1320,7 +3496,7 @@ export default function Home() {
                     if (movie.trailer) {
                       setShowingTrailer(prev => ({ 
                         ...prev, 
-                        [modalMovie]: !prev[modalMovie] 
+                        [modalKey]: !prev[modalKey] 
                       }));
                     }
                   }}
@@ -1339,8 +3515,11 @@ export default function Home() {
                     opacity: movie.trailer ? 1 : 0.5
                   }}
                 >
-                  ▶ {movie.trailer ? (showingTrailer[modalMovie] ? 'Hide Trailer' : 'Play Trailer') : 'No Trailer Available'}
+                  ▶ {movie.trailer ? (showingTrailer[modalKey] ? 'Hide Trailer' : 'Play Trailer') : 'No Trailer Available'}
                 </button>
+                <WatchlistToggle recommendation={modalMovie} />
+                <SeenToggle recommendation={modalMovie} />
+                <MoreLikeThisButton movie={withLoadedId(modalMovie)} />
               </div>
             </div>
           </div>
@@ -1358,7 +3537,7 @@ export default function Home() {
                 }}>
                   {(() => {
                     const maxLength = 300;
-                    const isExpanded = expandedDescriptions[modalMovie];
+                    const isExpanded = expandedDescriptions[modalKey];
                     const description = movie.description || '';
                     
                     if (description.length <= maxLength) {
@@ -1371,7 +3550,7 @@ export default function Home() {
                         <button
                           onClick={() => setExpandedDescriptions(prev => ({ 
                             ...prev, 
-                            [modalMovie]: !prev[modalMovie] 
+                            [modalKey]: !prev[modalKey] 
                           }))}
                           style={{
                             background: 'none',
@@ -1390,6 +3569,12 @@ export default function Home() {
                     );
                   })()}
                 </div>
+
+                {modalMovie.reason && (
+                  <div style={{ marginBottom: '24px' }}>
+                    <ReasonNote reason={modalMovie.reason} fontSize={15} />
+                  </div>
+                )}
                 
                 {movie.cast && movie.cast.length > 0 && (
                   <div style={{ marginBottom: '16px' }}>
@@ -1407,7 +3592,7 @@ export default function Home() {
                 
                 {movie.director && (
                   <div style={{ marginBottom: '16px' }}>
-                    <span style={{ color: '#777777', fontSize: '14px' }}>Director: </span>
+                    <span style={{ color: '#777777', fontSize: '14px' }}>{movie.media_type === 'tv' ? 'Created by' : 'Director'}: </span>
                     <span style={{ fontSize: '14px' }}>{movie.director}</span>
                   </div>
                 )}
@@ -1415,7 +3600,7 @@ export default function Home() {
               
               {/* Right Column - Additional Info */}
               <div>
-                {movie.streaming && movie.streaming.length > 0 && (
+                {((movie.availability || movie.streaming)?.length ?? 0) > 0 && (
                   <div style={{ marginBottom: '24px' }}>
                     <h4 style={{ 
                       fontSize: '16px', 
@@ -1425,23 +3610,7 @@ export default function Home() {
                     }}>
                       Available On:
                     </h4>
-                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
-                      {movie.streaming.map((service, index) => (
-                        <span 
-                          key={index}
-                          style={{
-                            backgroundColor: 'rgba(139, 92, 246, 0.2)',
-                            color: '#a78bfa',
-                            padding: '6px 12px',
-                            borderRadius: '16px',
-                            fontSize: '12px',
-                            fontWeight: '500'
-                          }}
-                        >
-                          {service}
-                        </span>
-                      ))}
-                    </div>
+                    <AvailabilityBadges movie={movie} padding="6px 12px" borderRadius="16px" />
                   </div>
                 )}
                 
@@ -1513,65 +3682,116 @@ export default function Home() {
           justifyContent: 'center'
         }}>
           <form onSubmit={handleSubmit} style={{ position: 'relative', width: '100%' }}>
-            <div style={{ position: 'relative', marginBottom: '24px' }}>
-              <div 
-                id="search-icon"
-                style={{
-                  position: 'absolute',
-                  left: '20px',
-                  top: '50%',
-                  transform: 'translateY(-50%)',
-                  color: '#9ca3af',
-                  fontSize: '28px',
-                  zIndex: 1,
-                  lineHeight: '1',
-                  transition: 'all 0.3s ease',
-                  pointerEvents: 'none'
-                }}>
-                🔍
-              </div>
-              <textarea
-                value={movies}
-                onChange={(e) => setMovies(e.target.value)}
-                onKeyDown={handleKeyPress}
-                placeholder="Input movies separated by commas ex. Dune 2, Midsommar, Whiplash"
-                data-gramm="false"
-                data-gramm_editor="false"
-                data-enable-grammarly="false"
-                spellCheck="false"
-                style={{
-                  width: '100%',
-                  padding: '30px 24px 10px 60px',
-                  backgroundColor: 'rgba(255, 255, 255, 0.95)',
-                  border: 'none',
-                  borderRadius: '50px',
-                  color: '#000000',
-                  fontSize: '22px',
-                  fontWeight: '500',
-                  minHeight: '50px',
-                  resize: 'none',
-                  outline: 'none',
-                  boxShadow: '0 10px 25px rgba(0, 0, 0, 0.3)',
-                  transition: 'all 0.3s ease',
-                  boxSizing: 'border-box',
-                  fontFamily: 'system-ui, -apple-system, sans-serif',
-                  textAlign: 'left',
-                  lineHeight: '1.2'
-                }}
-                onFocus={(e) => {
-                  e.target.style.boxShadow = '0 15px 35px rgba(139, 92, 246, 0.4)';
-                  e.target.style.transform = 'translateY(-2px)';
-                  const icon = document.getElementById('search-icon');
-                  if (icon) icon.style.transform = 'translateY(-50%) translateY(-2px)';
-                }}
-                onBlur={(e) => {
-                  e.target.style.boxShadow = '0 10px 25px rgba(0, 0, 0, 0.3)';
-                  e.target.style.transform = 'translateY(0)';
-                  const icon = document.getElementById('search-icon');
-                  if (icon) icon.style.transform = 'translateY(-50%) translateY(0px)';
-                }}
-              />
-            </div>
+            <div style={{ marginBottom: '12px' }}>{renderGroupToggle()}</div>
+            {groupMode ? (
+              <div style={{ marginBottom: '16px' }}>{renderGroupEditor()}</div>
+            ) : (
+              <>
+                <div style={{ position: 'relative', marginBottom: '24px' }}>
+                  <div 
+                    id="search-icon"
+                    style={{
+                      position: 'absolute',
+                      left: '20px',
+                      top: '50%',
+                      transform: 'translateY(-50%)',
+                      color: '#9ca3af',
+                      fontSize: '28px',
+                      zIndex: 1,
+                      lineHeight: '1',
+                      transition: 'all 0.3s ease',
+                      pointerEvents: 'none'
+                    }}>
+                    🔍
+                  </div>
+                  <textarea
+                    value={movies}
+                    onChange={(e) => setMovies(e.target.value)}
+                    onKeyDown={handleKeyPress}
+                    placeholder="Input movies separated by commas ex. Dune 2, Midsommar, Whiplash"
+                    data-gramm="false"
+                    data-gramm_editor="false"
+                    data-enable-grammarly="false"
+                    spellCheck="false"
+                    style={{
+                      width: '100%',
+                      padding: '30px 24px 10px 60px',
+                      backgroundColor: 'rgba(255, 255, 255, 0.95)',
+                      border: 'none',
+                      borderRadius: '50px',
+                      color: '#000000',
+                      fontSize: '22px',
+                      fontWeight: '500',
+                      minHeight: '50px',
+                      resize: 'none',
+                      outline: 'none',
+                      boxShadow: '0 10px 25px rgba(0, 0, 0, 0.3)',
+                      transition: 'all 0.3s ease',
+                      boxSizing: 'border-box',
+                      fontFamily: 'system-ui, -apple-system, sans-serif',
+                      textAlign: 'left',
+                      lineHeight: '1.2'
+                    }}
+                    onFocus={(e) => {
+                      e.target.style.boxShadow = '0 15px 35px rgba(139, 92, 246, 0.4)';
+                      e.target.style.transform = 'translateY(-2px)';
+                      const icon = document.getElementById('search-icon');
+                      if (icon) icon.style.transform = 'translateY(-50%) translateY(-2px)';
+                    }}
+                    onBlur={(e) => {
+                      e.target.style.boxShadow = '0 10px 25px rgba(0, 0, 0, 0.3)';
+                      e.target.style.transform = 'translateY(0)';
+                      const icon = document.getElementById('search-icon');
+                      if (icon) icon.style.transform = 'translateY(-50%) translateY(0px)';
+                    }}
+                  />
+                </div>
+                <SeedChips marginBottom="16px" />
+              </>
+            )}
+            <input
+              type="text"
+              maxLength={MOOD_MAX_LENGTH}
+              value={mood}
+              onChange={(e) => setMood(e.target.value)}
+              placeholder="Mood (optional), e.g. cozy rainy Sunday, nothing too sad"
+              aria-label="Your mood"
+              spellCheck="false"
+              style={{
+                width: '100%',
+                padding: '12px 24px',
+                marginBottom: '12px',
+                backgroundColor: 'rgba(255, 255, 255, 0.12)',
+                border: '1px solid rgba(255, 255, 255, 0.2)',
+                borderRadius: '50px',
+                color: '#ffffff',
+                fontSize: '16px',
+                outline: 'none',
+                boxSizing: 'border-box',
+                fontFamily: 'system-ui, -apple-system, sans-serif'
+              }}
+            />
+            <input
+              type="text"
+              value={dislikedMovies}
+              onChange={(e) => setDislikedMovies(e.target.value)}
+              placeholder="Not in the mood for (optional), e.g. Transformers, Fast X"
+              aria-label="Movies you disliked"
+              spellCheck="false"
+              style={{
+                width: '100%',
+                padding: '12px 24px',
+                marginBottom: '24px',
+                backgroundColor: 'rgba(255, 255, 255, 0.12)',
+                border: '1px solid rgba(255, 255, 255, 0.2)',
+                borderRadius: '50px',
+                color: '#ffffff',
+                fontSize: '16px',
+                outline: 'none',
+                boxSizing: 'border-box',
+                fontFamily: 'system-ui, -apple-system, sans-serif'
+              }}
+            />
             
             <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '12px' }}>
               <button
@@ -1653,6 +3873,20 @@ export default function Home() {
                     Matching results to your streaming services...
                   </p>
                 )}
+                {resultEngine === 'tmdb' && (
+                  <p style={{ fontSize: '13px', color: '#9ca3af', margin: '4px 0 0 0' }}>
+                    {engineNote}
+                  </p>
+                )}
+                {unresolvedSeeds.length > 0 && (
+                  <p style={{ fontSize: '13px', color: '#fbbf24', margin: '4px 0 0 0' }}>
+                    {unresolvedSeedsNote}
+                  </p>
+                )}
+                <ResultTrail margin="8px 0 0 0" />
+                <RatedPicks margin="8px 0 0 0" />
+                <ShareResults margin="8px 0 0 0" />
+                <ExportButtons listName="Toss the Remote picks" movies={recommendationList.map(withLoadedId)} margin="8px 0 0 0" />
               </div>
               <button
                 onClick={handleGetMoreMovies}
@@ -1684,7 +3918,9 @@ export default function Home() {
               margin: '0 auto 60px auto',
               padding: '12px 20px 0 20px'
             }}>
-              {recommendationList.slice(0, 7).map((movie, index) => (
+              {recommendationList.slice(0, 7).map((recommendation, index) => {
+                const movie = formatMovie(recommendation);
+                return (
                 <div
                   key={index}
                   style={{
@@ -1698,8 +3934,8 @@ export default function Home() {
                     minWidth: 0
                   }}
                   onClick={() => {
-                    fetchModalData(movie);
-                    setModalMovie(movie);
+                    fetchModalData(recommendation);
+                    setModalMovie(recommendation);
                   }}
                   onMouseEnter={(e) => {
                     e.currentTarget.style.transform = 'translateY(-8px)';
@@ -1746,7 +3982,7 @@ export default function Home() {
                     ) : mobilePosters[movie] ? (
                       <Image
                         src={mobilePosters[movie]}
-                        alt={movie.split(' (')[0]}
+                        alt={recommendation.title}
                         fill
                         style={{
                           borderRadius: '0',
@@ -1769,7 +4005,7 @@ export default function Home() {
                         textAlign: 'center',
                         padding: '20px'
                       }}>
-                        {movie.split(' (')[0]}
+                        {recommendation.title}
                       </div>
                     )}
 
@@ -1791,11 +4027,12 @@ export default function Home() {
                       }}
                     >
                       <div style={{ fontSize: '11px', color: '#d1d5db', marginBottom: '4px' }}>
-                        {movie.match(/\((\d{4})\)/) ? movie.match(/\((\d{4})\)/)![1] : ''}
+                        {recommendation.year}
+                        {recommendation.mediaType === 'tv' && ' · Series'}
                       </div>
-                      {movie.includes(' - ') && movie.split(' - ')[1].trim() && (
+                      {recommendation.director && (
                         <div style={{ fontSize: '10px', color: '#9ca3af', lineHeight: '1.4' }}>
-                          {movie.split(' - ')[1].trim()}
+                          {recommendation.director}
                         </div>
                       )}
                     </div>
@@ -1814,11 +4051,28 @@ export default function Home() {
                       WebkitBoxOrient: 'vertical',
                       overflow: 'hidden'
                     }}>
-                      {movie.split(' (')[0]}
+                      {recommendation.title}
                     </h3>
+                    {descriptions[movie]?.original_language && (
+                      <div style={{ marginTop: '6px' }}>
+                        <LanguageBadge code={descriptions[movie].original_language} />
+                      </div>
+                    )}
+                    {drawsOn(recommendation.reason).length > 0 && (
+                      <div style={{ marginTop: '6px', fontSize: '11px', color: '#a78bfa' }}>
+                        For {drawsOn(recommendation.reason).join(', ')}
+                      </div>
+                    )}
+                    <div style={{ marginTop: '8px', display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+                      <WatchlistToggle recommendation={recommendation} compact />
+                      <SeenToggle recommendation={recommendation} compact />
+                      <ReactionButtons recommendation={recommendation} />
+                      <MoreLikeThisButton movie={withLoadedId(recommendation)} compact />
+                    </div>
                   </div>
                 </div>
-              ))}
+              );
+              })}
             </div>
 
 
@@ -1911,6 +4165,9 @@ export default function Home() {
         </div>
       </div>
       <NetflixModal />
+      <ListButtons />
+      {renderWatchlist()}
+      {renderSeenList()}
     </div>
   );
 }
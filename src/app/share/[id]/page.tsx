@@ -0,0 +1,208 @@
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { metadata as siteMetadata } from '@/app/layout';
+import { describeConstraints } from '@/app/lib/constraints';
+import { languageName } from '@/app/lib/languages';
+import { getShareStore } from '@/app/lib/shareStore';
+import { SharedRun, isShareId } from '@/app/lib/shares';
+import { AVAILABILITY_TYPE_LABELS, WATCH_REGION_NAMES } from '@/app/lib/streamingProviders';
+
+// Read-only view of a shared recommendation run, rendered from what was saved
+// so the link keeps showing the same cards even after TMDB data changes.
+
+type SharePageProps = { params: Promise<{ id: string }> };
+
+const MEDIA_CHOICE_NOUNS = { movie: 'movies', tv: 'series', both: 'movies & series' };
+
+async function loadRun(id: string): Promise<SharedRun | null> {
+  const store = getShareStore();
+  if (!store || !isShareId(id)) return null;
+  try {
+    return await store.load(id);
+  } catch (error) {
+    console.error('Shared run load failed:', error);
+    return null;
+  }
+}
+
+function shareTitle(run: SharedRun): string {
+  const what = `${run.picks.length} ${MEDIA_CHOICE_NOUNS[run.mediaChoice]}`;
+  if (run.seeds.length > 0) return `${what} for fans of ${run.seeds.slice(0, 3).join(', ')}${run.seeds.length > 3 ? ' and more' : ''}`;
+  return run.mood ? `${what} for "${run.mood}"` : what;
+}
+
+// Builds on the site-wide metadata so link previews show the picks' posters
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+  const run = await loadRun((await params).id);
+  if (!run) return siteMetadata;
+
+  const title = `${shareTitle(run)} | Toss the Remote`;
+  const description = run.picks.map(pick => `${pick.title} (${pick.year})`).join(', ');
+  return {
+    ...siteMetadata,
+    title,
+    description,
+    openGraph: {
+      ...siteMetadata.openGraph,
+      title,
+      description,
+      images: run.picks
+        .filter(pick => pick.posterUrl)
+        .slice(0, 4)
+        .map(pick => ({ url: pick.posterUrl as string, alt: pick.title })),
+    },
+  };
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+  const run = await loadRun((await params).id);
+  if (!run) notFound();
+
+  const filters = [
+    `Watching in the ${WATCH_REGION_NAMES[run.region]}`,
+    ...(run.services.length > 0 ? [`On ${run.services.join(', ')}`] : []),
+    ...run.availabilityTypes.filter(type => type !== 'flatrate').map(type => AVAILABILITY_TYPE_LABELS[type]),
+    ...describeConstraints(run.constraints, run.region),
+    ...(run.languages.include.length > 0 ? [`Only in ${run.languages.include.map(languageName).join(' or ')}`] : []),
+    ...(run.languages.exclude.length > 0 ? [`Not in ${run.languages.exclude.map(languageName).join(' or ')}`] : []),
+  ];
+
+  return (
+    <div style={{
+      minHeight: '100vh',
+      backgroundColor: '#000000',
+      color: '#ffffff',
+      fontFamily: 'system-ui, -apple-system, sans-serif',
+      backgroundImage: 'radial-gradient(ellipse at center, rgba(139, 92, 246, 0.1) 0%, rgba(0, 0, 0, 1) 70%)',
+      padding: '48px 20px'
+    }}>
+      <div style={{ maxWidth: '1200px', margin: '0 auto' }}>
+        <Link href="/" style={{ textDecoration: 'none' }}>
+          <h1 style={{
+            fontSize: '40px',
+            fontWeight: 'bold',
+            background: 'linear-gradient(135deg, #8b5cf6 0%, #a78bfa 50%, #ffffff 100%)',
+            WebkitBackgroundClip: 'text',
+            WebkitTextFillColor: 'transparent',
+            backgroundClip: 'text',
+            margin: '0 0 24px 0'
+          }}>
+            Toss the Remote
+          </h1>
+        </Link>
+
+        <h2 style={{ fontSize: '24px', fontWeight: 600, margin: '0 0 8px 0' }}>
+          {shareTitle(run)}
+        </h2>
+        {run.mood && run.seeds.length > 0 && (
+          <p style={{ fontSize: '15px', color: '#d1d5db', margin: '0 0 8px 0' }}>
+            In the mood for &ldquo;{run.mood}&rdquo;
+          </p>
+        )}
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', margin: '0 0 32px 0' }}>
+          {filters.map(filter => (
+            <span key={filter} style={{
+              backgroundColor: 'rgba(255, 255, 255, 0.08)',
+              color: '#9ca3af',
+              padding: '2px 10px',
+              borderRadius: '999px',
+              fontSize: '12px'
+            }}>
+              {filter}
+            </span>
+          ))}
+        </div>
+
+        <div style={{
+          display: 'grid',
+          gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))',
+          gap: '20px'
+        }}>
+          {run.picks.map(pick => (
+            <div
+              key={`${pick.mediaType || 'movie'}:${pick.tmdbId ?? pick.title}`}
+              style={{
+                backgroundColor: 'rgba(255, 255, 255, 0.05)',
+                borderRadius: '16px',
+                overflow: 'hidden',
+                border: '1px solid rgba(255, 255, 255, 0.1)'
+              }}
+            >
+              <div style={{ width: '100%', paddingBottom: '150%', backgroundColor: 'rgba(255, 255, 255, 0.1)', position: 'relative' }}>
+                {pick.posterUrl ? (
+                  <Image
+                    src={pick.posterUrl}
+                    alt={pick.title}
+                    fill
+                    sizes="(max-width: 768px) 50vw, 200px"
+                    style={{ objectFit: 'cover', objectPosition: 'center top' }}
+                  />
+                ) : (
+                  <div style={{
+                    position: 'absolute',
+                    inset: 0,
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    color: '#9ca3af',
+                    fontSize: '14px',
+                    textAlign: 'center',
+                    padding: '20px'
+                  }}>
+                    {pick.title}
+                  </div>
+                )}
+              </div>
+              <div style={{ padding: '14px' }}>
+                <h3 style={{ fontSize: '15px', fontWeight: 600, margin: '0 0 4px 0' }}>
+                  {pick.title}
+                </h3>
+                <div style={{ fontSize: '12px', color: '#9ca3af', marginBottom: '8px' }}>
+                  {pick.year}
+                  {pick.mediaType === 'tv' && ' · Series'}
+                  {pick.director && ` · ${pick.director}`}
+                </div>
+                {pick.reason && (
+                  <p style={{ fontSize: '13px', color: '#d1d5db', lineHeight: '1.5', margin: '0 0 8px 0' }}>
+                    {pick.reason.text}
+                  </p>
+                )}
+                {pick.availability.length > 0 && (
+                  <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+                    {pick.availability.slice(0, 4).map(entry => (
+                      <span key={`${entry.name}:${entry.type}`} style={{
+                        backgroundColor: 'rgba(139, 92, 246, 0.2)',
+                        color: '#a78bfa',
+                        padding: '2px 8px',
+                        borderRadius: '999px',
+                        fontSize: '11px'
+                      }}>
+                        {entry.name} · {AVAILABILITY_TYPE_LABELS[entry.type]}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div style={{ textAlign: 'center', marginTop: '48px' }}>
+          <Link href="/" style={{
+            display: 'inline-block',
+            backgroundColor: '#8b5cf6',
+            color: '#ffffff',
+            padding: '12px 24px',
+            borderRadius: '9999px',
+            fontWeight: 600,
+            textDecoration: 'none'
+          }}>
+            Get your own recommendations
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}